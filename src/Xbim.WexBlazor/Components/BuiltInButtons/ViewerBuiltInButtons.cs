@@ -79,6 +79,68 @@ public static class ViewerBuiltInButtons
         };
     }
 
+    /// <summary>
+    /// Creates an undo button for selection, visibility and clipping changes
+    /// </summary>
+    public static ToolbarButton CreateUndoButton(XbimViewer viewer, Action? onStateChanged = null)
+    {
+        return new ToolbarButton
+        {
+            Icon = "bi bi-arrow-90deg-left",
+            Tooltip = "Undo",
+            OnClick = EventCallback.Factory.Create(viewer, async () =>
+            {
+                if (await viewer.UndoAsync())
+                {
+                    onStateChanged?.Invoke();
+                }
+            })
+        };
+    }
+
+    /// <summary>
+    /// Creates a redo button for selection, visibility and clipping changes
+    /// </summary>
+    public static ToolbarButton CreateRedoButton(XbimViewer viewer, Action? onStateChanged = null)
+    {
+        return new ToolbarButton
+        {
+            Icon = "bi bi-arrow-90deg-right",
+            Tooltip = "Redo",
+            OnClick = EventCallback.Factory.Create(viewer, async () =>
+            {
+                if (await viewer.RedoAsync())
+                {
+                    onStateChanged?.Invoke();
+                }
+            })
+        };
+    }
+
+    /// <summary>
+    /// Creates a visually grouped pair of undo and redo buttons
+    /// </summary>
+    /// <param name="viewer">The viewer component</param>
+    /// <param name="label">Optional label for the button group</param>
+    /// <param name="onStateChanged">Optional callback to trigger UI update after a change is undone or redone</param>
+    /// <returns>A toolbar button group with undo and redo buttons</returns>
+    public static ToolbarButtonGroup CreateUndoRedoButtons(
+        XbimViewer viewer,
+        string? label = null,
+        Action? onStateChanged = null)
+    {
+        return new ToolbarButtonGroup
+        {
+            Label = label,
+            Tooltip = "Undo/Redo",
+            Items = new List<ToolbarItemBase>
+            {
+                CreateUndoButton(viewer, onStateChanged),
+                CreateRedoButton(viewer, onStateChanged)
+            }
+        };
+    }
+
     /// <summary>
     /// Creates a view dropdown with preset camera angles
     /// </summary>
@@ -161,8 +223,124 @@ public static class ViewerBuiltInButtons
             IsToggled = false,
             OnToggle = EventCallback.Factory.Create<bool>(viewer, async (isXRay) =>
             {
-                var renderingMode = isXRay ? RenderingMode.XRay : RenderingMode.Normal;
-                await viewer.CallViewerMethodAsync<object>("set", new { renderingMode = renderingMode });
+                await viewer.SetRenderingModeAsync(isXRay ? ViewerRenderingMode.XRay : ViewerRenderingMode.Normal);
+            })
+        };
+    }
+
+    /// <summary>
+    /// Creates a dropdown to switch between the rendering modes
+    /// </summary>
+    public static ToolbarDropdown CreateRenderingModeDropdown(XbimViewer viewer)
+    {
+        return new ToolbarDropdown
+        {
+            Icon = "bi bi-palette",
+            Tooltip = "Rendering Mode",
+            Items = new List<ToolbarButton>
+            {
+                new ToolbarButton
+                {
+                    Icon = "bi bi-box",
+                    Tooltip = "Normal",
+                    OnClick = EventCallback.Factory.Create(viewer, async () =>
+                    {
+                        await viewer.SetRenderingModeAsync(ViewerRenderingMode.Normal);
+                    })
+                },
+                new ToolbarButton
+                {
+                    Icon = "bi bi-circle-half",
+                    Tooltip = "Grayscale",
+                    OnClick = EventCallback.Factory.Create(viewer, async () =>
+                    {
+                        await viewer.SetRenderingModeAsync(ViewerRenderingMode.Grayscale);
+                    })
+                },
+                new ToolbarButton
+                {
+                    Icon = "bi bi-transparency",
+                    Tooltip = "X-Ray",
+                    OnClick = EventCallback.Factory.Create(viewer, async () =>
+                    {
+                        await viewer.SetRenderingModeAsync(ViewerRenderingMode.XRay);
+                    })
+                },
+                new ToolbarButton
+                {
+                    Icon = "bi bi-layers",
+                    Tooltip = "X-Ray Ultra",
+                    OnClick = EventCallback.Factory.Create(viewer, async () =>
+                    {
+                        await viewer.SetRenderingModeAsync(ViewerRenderingMode.XRayUltra);
+                    })
+                }
+            }
+        };
+    }
+
+    /// <summary>
+    /// Creates a distance measurement toggle button
+    /// </summary>
+    public static ToolbarToggleButton CreateMeasureToggle(
+        XbimViewer viewer,
+        MeasurementOptions? options = null)
+    {
+        return new ToolbarToggleButton
+        {
+            Icon = "bi bi-rulers",
+            Tooltip = "Measure Distance",
+            ToggledTooltip = "Stop Measuring",
+            IsToggled = false,
+            OnToggle = EventCallback.Factory.Create<bool>(viewer, async (isMeasuring) =>
+            {
+                if (isMeasuring)
+                    await viewer.StartMeasurementAsync(options);
+                else
+                    await viewer.StopMeasurementAsync();
+            })
+        };
+    }
+
+    /// <summary>
+    /// Creates a button that downloads an image of the current view
+    /// </summary>
+    public static ToolbarButton CreateScreenshotButton(
+        XbimViewer viewer,
+        ImageCaptureOptions? options = null)
+    {
+        return new ToolbarButton
+        {
+            Icon = "bi bi-camera",
+            Tooltip = "Save Image",
+            OnClick = EventCallback.Factory.Create(viewer, async () =>
+            {
+                var format = options?.Format ?? ImageCaptureFormat.Png;
+                var data = await viewer.CaptureImageAsync(options);
+                if (data == null)
+                    return;
+
+                var extension = format.ToString().ToLowerInvariant();
+                await viewer.DownloadFileAsync($"view-{DateTime.Now:yyyyMMdd-HHmmss}.{extension}", data, $"image/{extension}");
+            })
+        };
+    }
+
+    /// <summary>
+    /// Creates a button that fits the section box around the selected elements
+    /// </summary>
+    /// <param name="viewer">The viewer component</param>
+    /// <param name="padding">Padding around the selection in meters</param>
+    public static ToolbarButton CreateSectionBoxToSelectionButton(XbimViewer viewer, double padding = 0.5)
+    {
+        return new ToolbarButton
+        {
+            Icon = "bi bi-bounding-box-circles",
+            Tooltip = "Section Box Around Selection",
+            OnClick = EventCallback.Factory.Create(viewer, async () =>
+            {
+                if (viewer.HasHighlightedElements)
+                    await viewer.FitSectionBoxToSelectionAsync(padding);
             })
         };
     }
@@ -264,6 +442,42 @@ public static class ViewerBuiltInButtons
         };
     }
 
+    /// <summary>
+    /// Creates a ghost isolate toggle button: highlighted elements stay solid, everything else is shown as transparent context
+    /// </summary>
+    /// <param name="viewer">The viewer component</param>
+    /// <param name="opacity">Opacity of the ghosts between 0 and 1</param>
+    /// <param name="onStateChanged">Optional callback to trigger UI update when button state changes</param>
+    public static ToolbarToggleButton CreateGhostIsolateToggle(
+        XbimViewer viewer,
+        double opacity = 0.15,
+        Action? onStateChanged = null)
+    {
+        return new ToolbarToggleButton
+        {
+            Icon = "bi bi-transparency",
+            ToggledIcon = "bi bi-transparency",
+            Tooltip = "Ghost Others",
+            ToggledTooltip = "Unghost",
+            IsToggled = false,
+            OnToggle = EventCallback.Factory.Create<bool>(viewer, async (isGhosted) =>
+            {
+                if (isGhosted)
+                {
+                    if (viewer.HasHighlightedElements)
+                    {
+                        await viewer.GhostIsolateAsync(viewer.HighlightedElements, opacity);
+                    }
+                }
+                else
+                {
+                    await viewer.UnghostAsync();
+                }
+                onStateChanged?.Invoke();
+            })
+        };
+    }
+
     /// <summary>
     /// Creates a visually grouped set of two toggle buttons for clipping plane control
     /// </summary>
@@ -434,7 +648,7 @@ public static class ViewerBuiltInButtons
                     Value = NavigationMode.Orbit,
                     OnClick = EventCallback.Factory.Create(viewer, async () =>
                     {
-                        await viewer.CallViewerMethodAsync<object>("set", new { navigationMode = NavigationMode.Orbit });
+                        await viewer.SetNavigationModeAsync(NavigationMode.Orbit);
                     })
                 },
                 new ToolbarRadioButton
@@ -445,7 +659,7 @@ public static class ViewerBuiltInButtons
                     Value = NavigationMode.FreeOrbit,
                     OnClick = EventCallback.Factory.Create(viewer, async () =>
                     {
-                        await viewer.CallViewerMethodAsync<object>("set", new { navigationMode = NavigationMode.FreeOrbit });
+                        await viewer.SetNavigationModeAsync(NavigationMode.FreeOrbit);
                     })
                 },
                 new ToolbarRadioButton
@@ -456,7 +670,7 @@ public static class ViewerBuiltInButtons
                     Value = NavigationMode.Pan,
                     OnClick = EventCallback.Factory.Create(viewer, async () =>
                     {
-                        await viewer.CallViewerMethodAsync<object>("set", new { navigationMode = NavigationMode.Pan });
+                        await viewer.SetNavigationModeAsync(NavigationMode.Pan);
                     })
                 },
                 new ToolbarRadioButton
@@ -467,7 +681,7 @@ public static class ViewerBuiltInButtons
                     Value = NavigationMode.Zoom,
                     OnClick = EventCallback.Factory.Create(viewer, async () =>
                     {
-                        await viewer.CallViewerMethodAsync<object>("set", new { navigationMode = NavigationMode.Zoom });
+                        await viewer.SetNavigationModeAsync(NavigationMode.Zoom);
                     })
                 },
                 new ToolbarRadioButton
@@ -478,7 +692,7 @@ public static class ViewerBuiltInButtons
                     Value = NavigationMode.LookAround,
                     OnClick = EventCallback.Factory.Create(viewer, async () =>
                     {
-                        await viewer.CallViewerMethodAsync<object>("set", new { navigationMode = NavigationMode.LookAround });
+                        await viewer.SetNavigationModeAsync(NavigationMode.LookAround);
                     })
                 },
                 new ToolbarRadioButton
@@ -489,7 +703,18 @@ public static class ViewerBuiltInButtons
                     Value = NavigationMode.Walk,
                     OnClick = EventCallback.Factory.Create(viewer, async () =>
                     {
-                        await viewer.CallViewerMethodAsync<object>("set", new { navigationMode = NavigationMode.Walk });
+                        await viewer.SetNavigationModeAsync(NavigationMode.Walk);
+                    })
+                },
+                new ToolbarRadioButton
+                {
+                    Icon = "bi bi-crosshair",
+                    Tooltip = "Locked Orbit",
+                    IsSelected = defaultSelectedIndex == 6,
+                    Value = NavigationMode.LockedOrbit,
+                    OnClick = EventCallback.Factory.Create(viewer, async () =>
+                    {
+                        await viewer.SetNavigationModeAsync(NavigationMode.LockedOrbit);
                     })
                 }
             }
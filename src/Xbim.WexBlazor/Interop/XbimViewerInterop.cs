@@ -1,6 +1,7 @@
 ﻿using Microsoft.JSInterop;
 using System.Text.Json;
 using System.Text.Json.Serialization;
+using Xbim.WexBlazor.Models;
 
 namespace Xbim.WexBlazor.Interop;
 
@@ -39,6 +40,51 @@ public class XbimViewerInterop : JsInteropBase
         return await InvokeAsync<int?>("loadModel", viewerId, modelUrl, tag ?? new { });
     }
 
+    /// <summary>
+    /// Queues a wexBIM model load. Each load is matched to its own completion, so several models
+    /// can load at once; progress is reported to ReportModelLoadProgress on the .NET object
+    /// and access tokens are requested from GetModelAccessToken.
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="loadId">Unique ID of the load, used to cancel it and to match progress reports</param>
+    /// <param name="modelUrl">URL to the wexBIM model file</param>
+    /// <param name="tag">Optional tag data to associate with the model</param>
+    /// <param name="options">Load options (timeout in milliseconds, maxConcurrentLoads, headers, useAccessToken)</param>
+    /// <param name="dotNetRef">DotNetObjectReference for progress callbacks</param>
+    /// <returns>Model ID, or the reason why the model was not loaded</returns>
+    public async ValueTask<ModelLoadResponse?> QueueModelLoadAsync<T>(string viewerId, string loadId, string modelUrl, object? tag, object options, DotNetObjectReference<T>? dotNetRef) where T : class
+    {
+        return await InvokeAsync<ModelLoadResponse?>("queueModelLoad", viewerId, loadId, modelUrl, tag ?? new { }, options, dotNetRef!);
+    }
+
+    /// <summary>
+    /// Queues the load of a wexBIM model streamed from .NET. The data is transferred in chunks
+    /// and loaded from a Blob, without a blob URL.
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="loadId">Unique ID of the load, used to cancel it and to match progress reports</param>
+    /// <param name="stream">Reference to the stream with the wexBIM data</param>
+    /// <param name="name">Name of the model</param>
+    /// <param name="tag">Optional tag data to associate with the model</param>
+    /// <param name="options">Load options (timeout in milliseconds, maxConcurrentLoads, size of the stream)</param>
+    /// <param name="dotNetRef">DotNetObjectReference for progress callbacks</param>
+    /// <returns>Model ID, or the reason why the model was not loaded</returns>
+    public async ValueTask<ModelLoadResponse?> QueueModelStreamLoadAsync<T>(string viewerId, string loadId, DotNetStreamReference stream, string name, object? tag, object options, DotNetObjectReference<T>? dotNetRef) where T : class
+    {
+        return await InvokeAsync<ModelLoadResponse?>("queueModelStreamLoad", viewerId, loadId, stream, name, tag ?? new { }, options, dotNetRef!);
+    }
+
+    /// <summary>
+    /// Cancels a queued or running model load
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="loadId">ID of the load</param>
+    /// <returns>True if the load was pending</returns>
+    public async ValueTask<bool> CancelModelLoadAsync(string viewerId, string loadId)
+    {
+        return await InvokeAsync<bool>("cancelModelLoad", viewerId, loadId);
+    }
+
     /// <summary>
     /// Starts the viewer rendering loop
     /// </summary>
@@ -93,7 +139,7 @@ public class XbimViewerInterop : JsInteropBase
     /// </summary>
     /// <param name="hex">Hex color string (e.g. "#FF0000" or "#FF0000FF")</param>
     /// <returns>RGBA array [r, g, b, a]</returns>
-    private int[] HexToRgba(string hex)
+    internal static int[] HexToRgba(string hex)
     {
         // Remove # if present
         hex = hex.TrimStart('#');
@@ -226,6 +272,28 @@ public class XbimViewerInterop : JsInteropBase
         return await InvokeAsync<bool>("show", viewerId, type, id ?? (object?)null, model ?? (object?)null, withAnimation);
     }
 
+    /// <summary>
+    /// Gets the current camera state
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <returns>Camera state or null if the viewer is not found</returns>
+    public async ValueTask<ViewerCamera?> GetCameraAsync(string viewerId)
+    {
+        return await InvokeAsync<ViewerCamera?>("getCamera", viewerId);
+    }
+
+    /// <summary>
+    /// Sets the camera state
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="camera">Camera state to apply</param>
+    /// <param name="duration">Duration of the animated transition in milliseconds (0 for none)</param>
+    /// <returns>True if successful</returns>
+    public async ValueTask<bool> SetCameraAsync(string viewerId, ViewerCamera camera, int duration = 0)
+    {
+        return await InvokeAsync<bool>("setCamera", viewerId, camera, duration);
+    }
+
     /// <summary>
     /// Generic method to invoke any viewer method dynamically.
     /// Use this for methods that don't have a typed wrapper yet.
@@ -485,13 +553,14 @@ public class XbimViewerInterop : JsInteropBase
     }
 
     /// <summary>
-    /// Removes the clipping plane from the viewer
+    /// Removes the clipping planes from the viewer
     /// </summary>
     /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="modelIds">Models to unclip, or null for all models</param>
     /// <returns>True if successful</returns>
-    public async ValueTask<bool> UnclipAsync(string viewerId)
+    public async ValueTask<bool> UnclipAsync(string viewerId, IEnumerable<int>? modelIds = null)
     {
-        return await InvokeAsync<bool>("unclip", viewerId);
+        return await InvokeAsync<bool>("unclip", viewerId, modelIds!);
     }
 
     public async ValueTask<bool> CreateSectionBoxAsync(string viewerId, string pluginId)
@@ -504,6 +573,49 @@ public class XbimViewerInterop : JsInteropBase
         return await InvokeAsync<bool>("clearSectionBox", viewerId, pluginId);
     }
 
+    /// <summary>
+    /// Gets the current section box
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <returns>The section box with bounds and planes, or null if no box is set</returns>
+    public async ValueTask<SectionBox?> GetSectionBoxAsync(string viewerId)
+    {
+        return await InvokeAsync<SectionBox?>("getSectionBox", viewerId);
+    }
+
+    /// <summary>
+    /// Sets the section box from its centre, size and rotation
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="box">Section box in model coordinates</param>
+    /// <returns>True if successful</returns>
+    public async ValueTask<bool> SetSectionBoxAsync(string viewerId, SectionBox box)
+    {
+        return await InvokeAsync<bool>("setSectionBox", viewerId, box);
+    }
+
+    /// <summary>
+    /// Fits the section box around the bounding boxes of products
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="products">Products as { id, model } objects, or null for the selected products</param>
+    /// <param name="padding">Padding around the products in meters</param>
+    /// <param name="zoom">Whether to zoom to the box</param>
+    /// <returns>True if successful</returns>
+    public async ValueTask<bool> FitSectionBoxToProductsAsync(string viewerId, IEnumerable<object>? products, double padding, bool zoom)
+    {
+        return await InvokeAsync<bool>("fitSectionBoxToProducts", viewerId, products!, padding, zoom);
+    }
+
+    /// <summary>
+    /// Reports boxes dragged with the section box control
+    /// to the OnSectionBoxMoved method of the .NET object reference
+    /// </summary>
+    public async ValueTask<bool> WatchSectionBoxAsync<T>(string viewerId, DotNetObjectReference<T> dotNetRef) where T : class
+    {
+        return await InvokeAsync<bool>("watchSectionBox", viewerId, dotNetRef);
+    }
+
     // ============================================================
     // Heatmap Plugin Methods
     // ============================================================
@@ -550,6 +662,55 @@ public class XbimViewerInterop : JsInteropBase
         return await InvokeAsync<bool>("updateHeatmapSourceValue", viewerId, pluginId, sourceId, value);
     }
 
+    /// <summary>
+    /// Adds or updates heatmap sources in one call. Existing sources get the new value,
+    /// optionally renders the channels of the sources afterwards.
+    /// </summary>
+    public async ValueTask<bool> SetHeatmapSourcesAsync(string viewerId, string pluginId, object[] sourceConfigs, bool render)
+    {
+        return await InvokeAsync<bool>("setHeatmapSources", viewerId, pluginId, sourceConfigs, render);
+    }
+
+    /// <summary>
+    /// Removes heatmap sources and the colors of their products.
+    /// </summary>
+    public async ValueTask<bool> RemoveHeatmapSourcesAsync(string viewerId, string pluginId, string[] sourceIds)
+    {
+        return await InvokeAsync<bool>("removeHeatmapSources", viewerId, pluginId, sourceIds);
+    }
+
+    /// <summary>
+    /// Removes all heatmap sources, or only the sources of a channel.
+    /// </summary>
+    public async ValueTask<bool> ClearHeatmapSourcesAsync(string viewerId, string pluginId, string? channelId)
+    {
+        return await InvokeAsync<bool>("clearHeatmapSources", viewerId, pluginId, channelId!);
+    }
+
+    /// <summary>
+    /// Removes a heatmap channel together with its sources.
+    /// </summary>
+    public async ValueTask<bool> RemoveHeatmapChannelAsync(string viewerId, string pluginId, string channelId)
+    {
+        return await InvokeAsync<bool>("removeHeatmapChannel", viewerId, pluginId, channelId);
+    }
+
+    /// <summary>
+    /// Removes all heatmap channels and sources.
+    /// </summary>
+    public async ValueTask<bool> ClearHeatmapChannelsAsync(string viewerId, string pluginId)
+    {
+        return await InvokeAsync<bool>("clearHeatmapChannels", viewerId, pluginId);
+    }
+
+    /// <summary>
+    /// Gets the legend of a heatmap channel.
+    /// </summary>
+    public async ValueTask<HeatmapLegend?> GetHeatmapLegendAsync(string viewerId, string pluginId, string channelId)
+    {
+        return await InvokeAsync<HeatmapLegend?>("getHeatmapLegend", viewerId, pluginId, channelId);
+    }
+
     // ============================================================
     // Icons Plugin Methods
     // ============================================================
@@ -612,6 +773,650 @@ public class XbimViewerInterop : JsInteropBase
     {
         return await InvokeAsync<bool>("updateGridColor", viewerId, pluginId, colour);
     }
+
+    // ============================================================
+    // BCF Viewpoint Methods
+    // ============================================================
+
+    /// <summary>
+    /// Captures the current view as a BCF viewpoint.
+    /// Components are identified by local IDs in the form "modelId_productId".
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="width">Optional snapshot width in pixels (aspect ratio is preserved)</param>
+    /// <returns>The viewpoint, or null if it could not be captured</returns>
+    public async ValueTask<BcfViewpoint?> GetViewpointAsync(string viewerId, int? width = null)
+    {
+        return await InvokeAsync<BcfViewpoint?>("getViewpoint", viewerId, width ?? 0);
+    }
+
+    /// <summary>
+    /// Applies a BCF viewpoint to the viewer.
+    /// Components must be identified by local IDs in the form "modelId_productId".
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="viewpoint">The viewpoint to apply</param>
+    /// <param name="duration">Camera animation duration in milliseconds (0 for no animation)</param>
+    /// <returns>True if successful</returns>
+    public async ValueTask<bool> SetViewpointAsync(string viewerId, BcfViewpoint viewpoint, int duration = 0)
+    {
+        return await InvokeAsync<bool>("setViewpoint", viewerId, viewpoint, duration);
+    }
+
+    // ============================================================
+    // File Methods
+    // ============================================================
+
+    /// <summary>
+    /// Downloads a file in the browser
+    /// </summary>
+    /// <param name="fileName">File name offered to the user</param>
+    /// <param name="contentType">MIME type of the file</param>
+    /// <param name="data">File content</param>
+    /// <returns>True if successful</returns>
+    public async ValueTask<bool> DownloadFileAsync(string fileName, string contentType, byte[] data)
+    {
+        using var streamRef = new DotNetStreamReference(new MemoryStream(data));
+        return await InvokeAsync<bool>("downloadFile", fileName, contentType, streamRef);
+    }
+
+    // ============================================================
+    // Undo/Redo Methods
+    // ============================================================
+
+    /// <summary>
+    /// Undoes the last selection, visibility or clipping change
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <returns>True if a change was undone</returns>
+    public async ValueTask<bool> UndoAsync(string viewerId)
+    {
+        return await InvokeAsync<bool>("undo", viewerId);
+    }
+
+    /// <summary>
+    /// Redoes the last undone change
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <returns>True if a change was redone</returns>
+    public async ValueTask<bool> RedoAsync(string viewerId)
+    {
+        return await InvokeAsync<bool>("redo", viewerId);
+    }
+
+    /// <summary>
+    /// Checks if there is a change to undo
+    /// </summary>
+    public async ValueTask<bool> CanUndoAsync(string viewerId)
+    {
+        return await InvokeAsync<bool>("canUndo", viewerId);
+    }
+
+    /// <summary>
+    /// Checks if there is an undone change to redo
+    /// </summary>
+    public async ValueTask<bool> CanRedoAsync(string viewerId)
+    {
+        return await InvokeAsync<bool>("canRedo", viewerId);
+    }
+
+    /// <summary>
+    /// Clears the undo/redo history
+    /// </summary>
+    public async ValueTask<bool> ClearHistoryAsync(string viewerId)
+    {
+        return await InvokeAsync<bool>("clearHistory", viewerId);
+    }
+
+    // ============================================================
+    // Measurement Methods
+    // ============================================================
+
+    /// <summary>
+    /// Starts the distance measurement tool. New measurements are reported
+    /// to the OnMeasurementCompleted method of the .NET object reference.
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="options">Snapping and label options</param>
+    /// <param name="dotNetRef">.NET object reference for callbacks</param>
+    /// <returns>True if successful</returns>
+    public async ValueTask<bool> StartMeasurementAsync<T>(string viewerId, object options, DotNetObjectReference<T> dotNetRef) where T : class
+    {
+        return await InvokeAsync<bool>("startMeasurement", viewerId, options, dotNetRef);
+    }
+
+    /// <summary>
+    /// Stops the distance measurement tool (measurements remain visible)
+    /// </summary>
+    public async ValueTask<bool> StopMeasurementAsync(string viewerId)
+    {
+        return await InvokeAsync<bool>("stopMeasurement", viewerId);
+    }
+
+    /// <summary>
+    /// Gets all measurements of the viewer
+    /// </summary>
+    public async ValueTask<List<Measurement>> GetMeasurementsAsync(string viewerId)
+    {
+        return await InvokeAsync<List<Measurement>>("getMeasurements", viewerId) ?? new List<Measurement>();
+    }
+
+    /// <summary>
+    /// Removes a measurement
+    /// </summary>
+    public async ValueTask<bool> RemoveMeasurementAsync(string viewerId, string measurementId)
+    {
+        return await InvokeAsync<bool>("removeMeasurement", viewerId, measurementId);
+    }
+
+    /// <summary>
+    /// Removes all measurements
+    /// </summary>
+    public async ValueTask<bool> ClearMeasurementsAsync(string viewerId)
+    {
+        return await InvokeAsync<bool>("clearMeasurements", viewerId);
+    }
+
+    // ============================================================
+    // Saved View Methods
+    // ============================================================
+
+    /// <summary>
+    /// Captures the camera, model states, clipping planes, section box and a thumbnail of the current view
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="thumbnailWidth">Thumbnail width in pixels (0 for no thumbnail)</param>
+    /// <returns>The captured view, without name and model keys</returns>
+    public async ValueTask<SavedView?> CaptureSavedViewAsync(string viewerId, int thumbnailWidth)
+    {
+        return await InvokeAsync<SavedView?>("captureSavedView", viewerId, thumbnailWidth);
+    }
+
+    /// <summary>
+    /// Applies a saved view. Model IDs of the view must match the loaded models.
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="view">The view to apply</param>
+    /// <param name="duration">Camera animation duration in milliseconds (0 for no animation)</param>
+    /// <returns>True if successful</returns>
+    public async ValueTask<bool> ApplySavedViewAsync(string viewerId, SavedView view, int duration = 0)
+    {
+        return await InvokeAsync<bool>("applySavedView", viewerId, view, duration);
+    }
+
+    // ============================================================
+    // Image Capture Methods
+    // ============================================================
+
+    /// <summary>
+    /// Renders the view to an image at the requested resolution, independent of the canvas size
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="options">Capture options (width, height, format, quality, transparent, includePlugins)</param>
+    /// <returns>Stream reference to the encoded image, or null if the image could not be rendered</returns>
+    public async ValueTask<IJSStreamReference?> CaptureImageAsync(string viewerId, object options)
+    {
+        return await InvokeAsync<IJSStreamReference?>("captureImage", viewerId, options);
+    }
+
+    // ============================================================
+    // Clipping Plane Methods
+    // ============================================================
+
+    /// <summary>
+    /// Clips models with plane A through a point. Plane B of the models is removed.
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="point">Point on the plane in model coordinates</param>
+    /// <param name="normal">Normal pointing to the half space which stays visible</param>
+    /// <param name="modelIds">Models to clip, or null for all models</param>
+    /// <returns>True if successful</returns>
+    public async ValueTask<bool> ClipAsync(string viewerId, double[] point, double[] normal, IEnumerable<int>? modelIds = null)
+    {
+        return await InvokeAsync<bool>("clip", viewerId, point, normal, modelIds!);
+    }
+
+    /// <summary>
+    /// Sets or clears clipping plane A or B
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="plane">Plane equation [a, b, c, d] in model coordinates, or null to clear the plane</param>
+    /// <param name="which">"A" or "B"</param>
+    /// <param name="modelIds">Models to set the plane for, or null for all models</param>
+    /// <returns>True if successful</returns>
+    public async ValueTask<bool> SetClippingPlaneAsync(string viewerId, double[]? plane, string which, IEnumerable<int>? modelIds = null)
+    {
+        return await InvokeAsync<bool>("setClippingPlane", viewerId, plane!, which, modelIds!);
+    }
+
+    /// <summary>
+    /// Gets the clipping planes of every loaded model
+    /// </summary>
+    public async ValueTask<List<ClippingPlaneState>> GetClippingPlanesAsync(string viewerId)
+    {
+        return await InvokeAsync<List<ClippingPlaneState>>("getClippingPlanes", viewerId) ?? new List<ClippingPlaneState>();
+    }
+
+    /// <summary>
+    /// Limits the interactive clipping plane to the given models
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="modelIds">Models to clip, or null for all models</param>
+    /// <returns>True if successful</returns>
+    public async ValueTask<bool> SetClippingPlaneModelsAsync(string viewerId, IEnumerable<int>? modelIds)
+    {
+        return await InvokeAsync<bool>("setClippingPlaneModels", viewerId, modelIds!);
+    }
+
+    /// <summary>
+    /// Reports planes moved with the interactive clipping plane
+    /// to the OnClippingPlaneMoved method of the .NET object reference
+    /// </summary>
+    public async ValueTask<bool> WatchClippingPlanesAsync<T>(string viewerId, DotNetObjectReference<T> dotNetRef) where T : class
+    {
+        return await InvokeAsync<bool>("watchClippingPlanes", viewerId, dotNetRef);
+    }
+
+    /// <summary>
+    /// Clips at the next picked face. The plane lies on the face and hides everything in front of it.
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="modelIds">Models to clip, or null for the models of the interactive clipping plane</param>
+    /// <returns>True if successful</returns>
+    public async ValueTask<bool> StartClippingPlanePickAsync(string viewerId, IEnumerable<int>? modelIds = null)
+    {
+        return await InvokeAsync<bool>("startClippingPlanePick", viewerId, modelIds!);
+    }
+
+    /// <summary>
+    /// Cancels clipping at the next picked face
+    /// </summary>
+    public async ValueTask<bool> StopClippingPlanePickAsync(string viewerId)
+    {
+        return await InvokeAsync<bool>("stopClippingPlanePick", viewerId);
+    }
+
+    // ============================================================
+    // Storey Plan Methods
+    // ============================================================
+
+    /// <summary>
+    /// Shows a floor plan: cuts the models above a storey, switches to an orthographic
+    /// top view and limits navigation to pan and zoom
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="elevation">Storey elevation in model coordinates</param>
+    /// <param name="cutHeight">Height of the cut above the elevation in meters</param>
+    /// <param name="options">Plan options (viewDepth, modelIds, duration)</param>
+    /// <returns>True if successful</returns>
+    public async ValueTask<bool> ShowStoreyPlanAsync(string viewerId, double elevation, double cutHeight, object options)
+    {
+        return await InvokeAsync<bool>("showStoreyPlan", viewerId, elevation, cutHeight, options);
+    }
+
+    /// <summary>
+    /// Closes the floor plan and restores the previous camera, clipping and navigation
+    /// </summary>
+    /// <returns>True if a plan was shown</returns>
+    public async ValueTask<bool> ExitStoreyPlanAsync(string viewerId, int duration)
+    {
+        return await InvokeAsync<bool>("exitStoreyPlan", viewerId, duration);
+    }
+
+    // ============================================================
+    // Rendering Methods
+    // ============================================================
+
+    /// <summary>
+    /// Sets the rendering mode
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="mode">Rendering mode</param>
+    /// <returns>True if successful</returns>
+    public async ValueTask<bool> SetRenderingModeAsync(string viewerId, ViewerRenderingMode mode)
+    {
+        return await InvokeAsync<bool>("setRenderingMode", viewerId, (int)mode);
+    }
+
+    /// <summary>
+    /// Sets the colour of ghosted elements in x-ray modes
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="color">CSS color string in hex format, with alpha for the transparency (e.g. "#50505096")</param>
+    /// <returns>True if successful</returns>
+    public async ValueTask<bool> SetXRayColorAsync(string viewerId, string color)
+    {
+        int[] rgba = HexToRgba(color);
+        return await InvokeAsync<bool>("setXRayColor", viewerId, rgba);
+    }
+
+    /// <summary>
+    /// Adjusts gamma, contrast and brightness of the rendered image
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="adjustments">Adjustments (gamma, contrast, brightness). Missing values are left unchanged.</param>
+    /// <returns>True if successful</returns>
+    public async ValueTask<bool> SetImageAdjustmentsAsync(string viewerId, object adjustments)
+    {
+        return await InvokeAsync<bool>("setImageAdjustments", viewerId, adjustments);
+    }
+
+    /// <summary>
+    /// Gets the rendering mode, x-ray colour and image adjustments
+    /// </summary>
+    public async ValueTask<RenderingSettings?> GetRenderingSettingsAsync(string viewerId)
+    {
+        return await InvokeAsync<RenderingSettings?>("getRenderingSettings", viewerId);
+    }
+
+    // ============================================================
+    // Navigation Methods
+    // ============================================================
+
+    /// <summary>
+    /// Sets the navigation mode of the left mouse button
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="mode">Navigation mode (see <see cref="ViewerConstants.NavigationMode"/>)</param>
+    /// <returns>True if the mode was applied</returns>
+    public async ValueTask<bool> SetNavigationModeAsync(string viewerId, string mode)
+    {
+        return await InvokeAsync<bool>("setNavigationMode", viewerId, mode);
+    }
+
+    /// <summary>
+    /// Gets the current navigation mode
+    /// </summary>
+    public async ValueTask<string?> GetNavigationModeAsync(string viewerId)
+    {
+        return await InvokeAsync<string?>("getNavigationMode", viewerId);
+    }
+
+    /// <summary>
+    /// Sets the centre of a product as the origin of the locked orbit navigation
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="productId">Product ID</param>
+    /// <param name="modelId">Model ID</param>
+    /// <returns>True if successful</returns>
+    public async ValueTask<bool> SetLockedOrbitOriginAsync(string viewerId, int productId, int modelId)
+    {
+        return await InvokeAsync<bool>("setLockedOrbitOrigin", viewerId, productId, modelId);
+    }
+
+    /// <summary>
+    /// Orbits around products picked with a right-click and reports them
+    /// to the OnPivotPicked method of the .NET object reference
+    /// </summary>
+    public async ValueTask<bool> EnablePivotOnRightClickAsync<T>(string viewerId, DotNetObjectReference<T> dotNetRef) where T : class
+    {
+        return await InvokeAsync<bool>("enablePivotOnRightClick", viewerId, dotNetRef);
+    }
+
+    /// <summary>
+    /// Stops setting the orbit pivot on right-click
+    /// </summary>
+    public async ValueTask<bool> DisablePivotOnRightClickAsync(string viewerId)
+    {
+        return await InvokeAsync<bool>("disablePivotOnRightClick", viewerId);
+    }
+
+    // ============================================================
+    // Styling Methods
+    // ============================================================
+
+    /// <summary>
+    /// Replaces the styles of all loaded models with style layers. Layers use the style indices reserved
+    /// for them (<see cref="ViewerConstants.StyleRange"/>), from the top down,
+    /// and products take the style of the first layer containing them.
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="layers">Style layers</param>
+    /// <returns>Number of products coloured by each layer, or null if the layers could not be applied</returns>
+    public async ValueTask<int[]?> ApplyStyleLayersAsync(string viewerId, IEnumerable<StyleLayer> layers)
+    {
+        return await InvokeAsync<int[]?>("applyStyleLayers", viewerId, layers);
+    }
+
+    /// <summary>
+    /// Removes the styles of all loaded models
+    /// </summary>
+    /// <returns>True if successful</returns>
+    public async ValueTask<bool> ResetStylesAsync(string viewerId)
+    {
+        return await InvokeAsync<bool>("resetStyles", viewerId);
+    }
+
+    // ============================================================
+    // Ghost Isolation Methods
+    // ============================================================
+
+    /// <summary>
+    /// Shows products solid and everything else as transparent ghosts
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="products">Products to keep solid (id and model; a null model matches all models)</param>
+    /// <param name="opacity">Opacity of the ghosts between 0 and 1, or null to keep the x-ray colour</param>
+    /// <param name="onTop">Draw the products on top of the ghosts (x-ray ultra) instead of in depth order</param>
+    /// <returns>True if successful</returns>
+    public async ValueTask<bool> GhostIsolateAsync(string viewerId, IEnumerable<object> products, double? opacity, bool onTop)
+    {
+        return await InvokeAsync<bool>("ghostIsolate", viewerId, products, opacity!, onTop);
+    }
+
+    /// <summary>
+    /// Ends ghost isolation and restores the rendering mode and x-ray colour
+    /// </summary>
+    /// <returns>True if successful</returns>
+    public async ValueTask<bool> UnghostAsync(string viewerId)
+    {
+        return await InvokeAsync<bool>("unghost", viewerId);
+    }
+
+    // ============================================================
+    // Model Alignment Methods
+    // ============================================================
+
+    /// <summary>
+    /// Gets the alignment of all loaded models
+    /// </summary>
+    public async ValueTask<ModelAlignment[]?> GetModelAlignmentsAsync(string viewerId)
+    {
+        return await InvokeAsync<ModelAlignment[]?>("getModelAlignments", viewerId);
+    }
+
+    /// <summary>
+    /// Moves a model by an offset from the origin stored in its wexBIM file
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="modelId">The model ID</param>
+    /// <param name="offset">Offset [x, y, z] in model units</param>
+    /// <returns>The new alignment, or null if the model was not found</returns>
+    public async ValueTask<ModelAlignment?> SetModelOffsetAsync(string viewerId, int modelId, double[] offset)
+    {
+        return await InvokeAsync<ModelAlignment?>("setModelOffset", viewerId, modelId, offset);
+    }
+
+    // ============================================================
+    // Model Flag Methods
+    // ============================================================
+
+    /// <summary>
+    /// Gets whether a model is pickable, clippable and pinned
+    /// </summary>
+    public async ValueTask<ModelFlags?> GetModelFlagsAsync(string viewerId, int modelId)
+    {
+        return await InvokeAsync<ModelFlags?>("getModelFlags", viewerId, modelId);
+    }
+
+    /// <summary>
+    /// Sets the flags of a model
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="modelId">The model ID</param>
+    /// <param name="flags">Flags to change (pickable, clippable, pinned); missing flags keep their value</param>
+    /// <returns>The flags of the model, or null if the model was not found</returns>
+    public async ValueTask<ModelFlags?> SetModelFlagsAsync(string viewerId, int modelId, object flags)
+    {
+        return await InvokeAsync<ModelFlags?>("setModelFlags", viewerId, modelId, flags);
+    }
+
+    // ============================================================
+    // Performance Diagnostics Methods
+    // ============================================================
+
+    /// <summary>
+    /// Gets the heaviest products of all visible models
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="orderBy">'triangles' or 'density'</param>
+    /// <param name="limit">Maximum number of products returned</param>
+    public async ValueTask<ProductAnalysisReport?> GetProductAnalysisAsync(string viewerId, string orderBy, int limit)
+    {
+        return await InvokeAsync<ProductAnalysisReport?>("getProductAnalysis", viewerId, orderBy, limit);
+    }
+
+    /// <summary>
+    /// Isolates the heaviest products which together hold the given ratio of the measure
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="measure">'triangles' or 'density'</param>
+    /// <param name="ratio">Ratio between 0 and 1</param>
+    /// <param name="limit">Maximum number of products returned</param>
+    public async ValueTask<ProductAnalysisReport?> IsolateHeavyProductsAsync(string viewerId, string measure, double ratio, int limit)
+    {
+        return await InvokeAsync<ProductAnalysisReport?>("isolateHeavyProducts", viewerId, measure, ratio, limit);
+    }
+
+    /// <summary>
+    /// Gets the current frame rate and performance rating
+    /// </summary>
+    public async ValueTask<PerformanceStats?> GetPerformanceStatsAsync(string viewerId)
+    {
+        return await InvokeAsync<PerformanceStats?>("getPerformanceStats", viewerId);
+    }
+
+    /// <summary>
+    /// Switches adaptive performance on or off
+    /// </summary>
+    public async ValueTask<bool> SetAdaptivePerformanceAsync(string viewerId, bool on)
+    {
+        return await InvokeAsync<bool>("setAdaptivePerformance", viewerId, on);
+    }
+
+    /// <summary>
+    /// Zooms to products of any model
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="products">Products (id and model)</param>
+    /// <param name="withAnimation">Whether to animate the camera</param>
+    public async ValueTask<bool> ZoomToProductsAsync(string viewerId, IEnumerable<object> products, bool withAnimation)
+    {
+        return await InvokeAsync<bool>("zoomToProducts", viewerId, products, withAnimation);
+    }
+
+    // ============================================================
+    // WexBIM Inspection Methods
+    // ============================================================
+
+    /// <summary>
+    /// Reads the header of a wexBIM file from a URL without loading it. Only the start of the file is downloaded.
+    /// </summary>
+    /// <param name="url">URL of the wexBIM file</param>
+    /// <param name="headers">HTTP headers sent with the download</param>
+    /// <returns>The summary, or null if the file could not be read</returns>
+    public async ValueTask<WexbimInfo?> InspectWexbimAsync(string url, IDictionary<string, string>? headers)
+    {
+        return await InvokeAsync<WexbimInfo?>("inspectWexbim", url, headers!);
+    }
+
+    /// <summary>
+    /// Reads the header of a wexBIM file streamed from .NET without loading it
+    /// </summary>
+    /// <param name="stream">Reference to the stream</param>
+    /// <param name="size">Size of the file in bytes, if known</param>
+    /// <returns>The summary, or null if the stream could not be read</returns>
+    public async ValueTask<WexbimInfo?> InspectWexbimStreamAsync(DotNetStreamReference stream, long? size)
+    {
+        return await InvokeAsync<WexbimInfo?>("inspectWexbimStream", stream, size!);
+    }
+
+    // ============================================================
+    // Linked Viewer Methods
+    // ============================================================
+
+    /// <summary>
+    /// Adds a viewer to a link group. Viewers in a group mirror camera moves, selection and visibility.
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="groupId">Name of the group</param>
+    /// <param name="channels">Channels to link</param>
+    /// <param name="dotNetRef">Receives OnLinkedSelectionChanged when the selection is changed by another viewer</param>
+    public async ValueTask<bool> LinkViewerAsync<T>(string viewerId, string groupId, ViewerLinkChannels channels, DotNetObjectReference<T>? dotNetRef) where T : class
+    {
+        return await InvokeAsync<bool>("linkViewer", viewerId, groupId, channels, dotNetRef!);
+    }
+
+    /// <summary>
+    /// Turns the channels of a linked viewer on or off
+    /// </summary>
+    /// <returns>The channels of the viewer, or null if it is not linked</returns>
+    public async ValueTask<ViewerLinkChannels?> SetLinkChannelsAsync(string viewerId, ViewerLinkChannels channels)
+    {
+        return await InvokeAsync<ViewerLinkChannels?>("setLinkChannels", viewerId, channels);
+    }
+
+    /// <summary>
+    /// Removes a viewer from its link group
+    /// </summary>
+    public async ValueTask<bool> UnlinkViewerAsync(string viewerId)
+    {
+        return await InvokeAsync<bool>("unlinkViewer", viewerId);
+    }
+
+    /// <summary>
+    /// Gets the ids of the other viewers in the link group of a viewer
+    /// </summary>
+    public async ValueTask<string[]> GetLinkedViewersAsync(string viewerId)
+    {
+        return await InvokeAsync<string[]>("getLinkedViewers", viewerId);
+    }
+
+    // ============================================================
+    // Model Comparison Methods
+    // ============================================================
+
+    /// <summary>
+    /// Compares two loaded versions of a model and colours their products as added, removed, modified or unchanged
+    /// </summary>
+    /// <param name="viewerId">The viewer reference ID</param>
+    /// <param name="baseModelId">ID of the older version</param>
+    /// <param name="baseProducts">Products of the older version</param>
+    /// <param name="modelId">ID of the newer version</param>
+    /// <param name="products">Products of the newer version</param>
+    /// <param name="options">Tolerance, compared aspects and colours</param>
+    /// <returns>The changes, or null if the models could not be compared</returns>
+    public async ValueTask<ModelComparisonResult?> CompareModelsAsync(string viewerId, int baseModelId, IEnumerable<ProductVersion> baseProducts,
+        int modelId, IEnumerable<ProductVersion> products, ModelComparisonOptions options)
+    {
+        return await InvokeAsync<ModelComparisonResult?>("compareModels", viewerId, baseModelId, baseProducts, modelId, products, options);
+    }
+
+    /// <summary>
+    /// Shows only the products of the given comparison categories
+    /// </summary>
+    public async ValueTask<bool> SetComparisonFilterAsync(string viewerId, IEnumerable<ComparisonCategory> categories)
+    {
+        return await InvokeAsync<bool>("setComparisonFilter", viewerId, categories.Select(c => (int)c).ToArray());
+    }
+
+    /// <summary>
+    /// Removes the comparison colours and shows both versions completely again
+    /// </summary>
+    public async ValueTask<bool> EndComparisonAsync(string viewerId)
+    {
+        return await InvokeAsync<bool>("endComparison", viewerId);
+    }
 }
 
 /// <summary>
@@ -629,6 +1434,24 @@ public class PluginInfo
     public bool Stopped { get; set; }
 }
 
+/// <summary>
+/// Outcome of a queued model load from JavaScript
+/// </summary>
+public class ModelLoadResponse
+{
+    [JsonPropertyName("modelId")]
+    public int? ModelId { get; set; }
+
+    [JsonPropertyName("reason")]
+    public ModelLoadErrorReason? Reason { get; set; }
+
+    [JsonPropertyName("message")]
+    public string? Message { get; set; }
+
+    [JsonPropertyName("status")]
+    public int? Status { get; set; }
+}
+
 /// <summary>
 /// Information about a loaded model from JavaScript
 /// </summary>
@@ -0,0 +1,117 @@
+namespace Xbim.WexBlazor.Models;
+
+/// <summary>
+/// BCF file format version
+/// </summary>
+public enum BcfVersion
+{
+    /// <summary>
+    /// BCF 2.1
+    /// </summary>
+    V21,
+
+    /// <summary>
+    /// BCF 3.0
+    /// </summary>
+    V30
+}
+
+/// <summary>
+/// Contents of a BCF archive (.bcfzip)
+/// </summary>
+public class BcfArchive
+{
+    /// <summary>
+    /// Version of the archive (used when exporting)
+    /// </summary>
+    public BcfVersion Version { get; set; } = BcfVersion.V21;
+
+    /// <summary>
+    /// Optional project ID from project.bcfp
+    /// </summary>
+    public string? ProjectId { get; set; }
+
+    /// <summary>
+    /// Optional project name from project.bcfp
+    /// </summary>
+    public string? ProjectName { get; set; }
+
+    /// <summary>
+    /// Topics in the archive
+    /// </summary>
+    public List<BcfTopic> Topics { get; set; } = new();
+}
+
+/// <summary>
+/// A BCF topic (issue) with its comments and viewpoints
+/// </summary>
+public class BcfTopic
+{
+    public string Guid { get; set; } = System.Guid.NewGuid().ToString();
+
+    public string Title { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Type of the topic (e.g. "Issue", "Clash", "Request")
+    /// </summary>
+    public string? TopicType { get; set; }
+
+    /// <summary>
+    /// Status of the topic (e.g. "Open", "Closed")
+    /// </summary>
+    public string? TopicStatus { get; set; }
+
+    public string? Priority { get; set; }
+
+    public int? Index { get; set; }
+
+    public List<string> Labels { get; set; } = new();
+
+    public DateTime CreationDate { get; set; } = DateTime.UtcNow;
+
+    public string? CreationAuthor { get; set; }
+
+    public DateTime? ModifiedDate { get; set; }
+
+    public string? ModifiedAuthor { get; set; }
+
+    public DateTime? DueDate { get; set; }
+
+    public string? AssignedTo { get; set; }
+
+    public string? Stage { get; set; }
+
+    public string? Description { get; set; }
+
+    public List<string> ReferenceLinks { get; set; } = new();
+
+    public List<BcfComment> Comments { get; set; } = new();
+
+    /// <summary>
+    /// Viewpoints of the topic, including their snapshots
+    /// </summary>
+    public List<BcfViewpoint> Viewpoints { get; set; } = new();
+}
+
+/// <summary>
+/// A comment on a BCF topic
+/// </summary>
+public class BcfComment
+{
+    public string Guid { get; set; } = System.Guid.NewGuid().ToString();
+
+    public DateTime Date { get; set; } = DateTime.UtcNow;
+
+    public string? Author { get; set; }
+
+    public string Comment { get; set; } = string.Empty;
+
+    /// <summary>
+    /// GUID of the viewpoint the comment refers to
+    /// </summary>
+    public string? ViewpointGuid { get; set; }
+
+    public DateTime? ModifiedDate { get; set; }
+
+    public string? ModifiedAuthor { get; set; }
+}
@@ -0,0 +1,293 @@
+using System.Text.Json.Serialization;
+
+namespace Xbim.WexBlazor.Models;
+
+/// <summary>
+/// A BCF viewpoint following the buildingSMART BCF-API schema.
+/// Captures camera, clipping planes, components and snapshot of a view
+/// so it can be restored later or exchanged with other BCF tools.
+/// Lengths and coordinates are in meters.
+/// </summary>
+public class BcfViewpoint
+{
+    /// <summary>
+    /// Unique ID of the viewpoint
+    /// </summary>
+    [JsonPropertyName("guid")]
+    public string Guid { get; set; } = System.Guid.NewGuid().ToString();
+
+    /// <summary>
+    /// Index used for sorting multiple viewpoints of a topic
+    /// </summary>
+    [JsonPropertyName("index")]
+    public int? Index { get; set; }
+
+    /// <summary>
+    /// Perspective camera of the view (null for orthogonal views)
+    /// </summary>
+    [JsonPropertyName("perspective_camera")]
+    public BcfPerspectiveCamera? PerspectiveCamera { get; set; }
+
+    /// <summary>
+    /// Orthogonal camera of the view (null for perspective views)
+    /// </summary>
+    [JsonPropertyName("orthogonal_camera")]
+    public BcfOrthogonalCamera? OrthogonalCamera { get; set; }
+
+    /// <summary>
+    /// 3D markup lines
+    /// </summary>
+    [JsonPropertyName("lines")]
+    public List<BcfLine>? Lines { get; set; }
+
+    /// <summary>
+    /// Clipping planes defining the visible subsection of the model.
+    /// Six planes are interpreted as a section box.
+    /// </summary>
+    [JsonPropertyName("clipping_planes")]
+    public List<BcfClippingPlane>? ClippingPlanes { get; set; }
+
+    /// <summary>
+    /// Bitmaps placed in the 3D view
+    /// </summary>
+    [JsonPropertyName("bitmaps")]
+    public List<BcfBitmap>? Bitmaps { get; set; }
+
+    /// <summary>
+    /// Image snapshot of the view
+    /// </summary>
+    [JsonPropertyName("snapshot")]
+    public BcfSnapshot? Snapshot { get; set; }
+
+    /// <summary>
+    /// Selected, coloured and hidden components of the view
+    /// </summary>
+    [JsonPropertyName("components")]
+    public BcfComponents? Components { get; set; }
+}
+
+/// <summary>
+/// Camera properties shared by perspective and orthogonal BCF cameras
+/// </summary>
+public abstract class BcfCamera
+{
+    [JsonPropertyName("camera_view_point")]
+    public double[] CameraViewPoint { get; set; } = Array.Empty<double>();
+
+    [JsonPropertyName("camera_direction")]
+    public double[] CameraDirection { get; set; } = Array.Empty<double>();
+
+    [JsonPropertyName("camera_up_vector")]
+    public double[] CameraUpVector { get; set; } = Array.Empty<double>();
+
+    /// <summary>
+    /// Width of the view (used to preserve the aspect ratio)
+    /// </summary>
+    [JsonPropertyName("width")]
+    public double? Width { get; set; }
+
+    /// <summary>
+    /// Height of the view (used to preserve the aspect ratio)
+    /// </summary>
+    [JsonPropertyName("height")]
+    public double? Height { get; set; }
+}
+
+/// <summary>
+/// A BCF perspective camera
+/// </summary>
+public class BcfPerspectiveCamera : BcfCamera
+{
+    /// <summary>
+    /// Vertical field of view in degrees
+    /// </summary>
+    [JsonPropertyName("field_of_view")]
+    public double FieldOfView { get; set; } = 60;
+}
+
+/// <summary>
+/// A BCF orthogonal camera
+/// </summary>
+public class BcfOrthogonalCamera : BcfCamera
+{
+    /// <summary>
+    /// Proportion of camera view to model
+    /// </summary>
+    [JsonPropertyName("view_to_world_scale")]
+    public double ViewToWorldScale { get; set; }
+}
+
+/// <summary>
+/// A BCF clipping plane defined by a location and a direction
+/// </summary>
+public class BcfClippingPlane
+{
+    [JsonPropertyName("location")]
+    public double[] Location { get; set; } = Array.Empty<double>();
+
+    [JsonPropertyName("direction")]
+    public double[] Direction { get; set; } = Array.Empty<double>();
+}
+
+/// <summary>
+/// A BCF markup line. Lines with equal start and end points are points.
+/// </summary>
+public class BcfLine
+{
+    [JsonPropertyName("start_point")]
+    public double[] StartPoint { get; set; } = Array.Empty<double>();
+
+    [JsonPropertyName("end_point")]
+    public double[] EndPoint { get; set; } = Array.Empty<double>();
+}
+
+/// <summary>
+/// A BCF bitmap placed in the 3D view
+/// </summary>
+public class BcfBitmap
+{
+    /// <summary>
+    /// Bitmap format ("png" or "jpg")
+    /// </summary>
+    [JsonPropertyName("bitmap_type")]
+    public string BitmapType { get; set; } = "png";
+
+    /// <summary>
+    /// Base64 encoded image data
+    /// </summary>
+    [JsonPropertyName("bitmap_data")]
+    public string BitmapData { get; set; } = string.Empty;
+
+    [JsonPropertyName("location")]
+    public double[] Location { get; set; } = Array.Empty<double>();
+
+    [JsonPropertyName("normal")]
+    public double[] Normal { get; set; } = Array.Empty<double>();
+
+    [JsonPropertyName("up")]
+    public double[] Up { get; set; } = Array.Empty<double>();
+
+    [JsonPropertyName("height")]
+    public double Height { get; set; }
+}
+
+/// <summary>
+/// A BCF snapshot image
+/// </summary>
+public class BcfSnapshot
+{
+    /// <summary>
+    /// Snapshot format ("png" or "jpg")
+    /// </summary>
+    [JsonPropertyName("snapshot_type")]
+    public string SnapshotType { get; set; } = "png";
+
+    /// <summary>
+    /// Base64 encoded image data
+    /// </summary>
+    [JsonPropertyName("snapshot_data")]
+    public string SnapshotData { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Decodes the snapshot image data
+    /// </summary>
+    public byte[] GetBytes() =>
+        string.IsNullOrEmpty(SnapshotData) ? Array.Empty<byte>() : Convert.FromBase64String(SnapshotData);
+}
+
+/// <summary>
+/// Components of a BCF viewpoint
+/// </summary>
+public class BcfComponents
+{
+    /// <summary>
+    /// Selected components
+    /// </summary>
+    [JsonPropertyName("selection")]
+    public List<BcfComponent>? Selection { get; set; }
+
+    /// <summary>
+    /// Coloured components
+    /// </summary>
+    [JsonPropertyName("coloring")]
+    public List<BcfColoring>? Coloring { get; set; }
+
+    /// <summary>
+    /// Visibility of components
+    /// </summary>
+    [JsonPropertyName("visibility")]
+    public BcfVisibility? Visibility { get; set; }
+}
+
+/// <summary>
+/// A component referenced from a BCF viewpoint
+/// </summary>
+public class BcfComponent
+{
+    /// <summary>
+    /// IFC GlobalId of the component
+    /// </summary>
+    [JsonPropertyName("ifc_guid")]
+    public string? IfcGuid { get; set; }
+
+    /// <summary>
+    /// Name of the system in which the component is originated
+    /// </summary>
+    [JsonPropertyName("originating_system")]
+    public string? OriginatingSystem { get; set; }
+
+    /// <summary>
+    /// System specific identifier of the component in the originating BIM tool
+    /// </summary>
+    [JsonPropertyName("authoring_tool_id")]
+    public string? AuthoringToolId { get; set; }
+}
+
+/// <summary>
+/// A group of components displayed in the same colour
+/// </summary>
+public class BcfColoring
+{
+    /// <summary>
+    /// Colour in ARGB or RGB hex format (e.g. "FF00FF00")
+    /// </summary>
+    [JsonPropertyName("color")]
+    public string Color { get; set; } = string.Empty;
+
+    [JsonPropertyName("components")]
+    public List<BcfComponent> Components { get; set; } = new();
+}
+
+/// <summary>
+/// Visibility of components in a BCF viewpoint
+/// </summary>
+public class BcfVisibility
+{
+    /// <summary>
+    /// Whether components are visible by default.
+    /// Exceptions are hidden when true and the only visible components when false.
+    /// </summary>
+    [JsonPropertyName("default_visibility")]
+    public bool DefaultVisibility { get; set; } = true;
+
+    [JsonPropertyName("exceptions")]
+    public List<BcfComponent>? Exceptions { get; set; }
+
+    [JsonPropertyName("view_setup_hints")]
+    public BcfViewSetupHints? ViewSetupHints { get; set; }
+}
+
+/// <summary>
+/// Hints about the visibility of spaces, space boundaries and openings
+/// </summary>
+public class BcfViewSetupHints
+{
+    [JsonPropertyName("spaces_visible")]
+    public bool SpacesVisible { get; set; }
+
+    [JsonPropertyName("space_boundaries_visible")]
+    public bool SpaceBoundariesVisible { get; set; }
+
+    [JsonPropertyName("openings_visible")]
+    public bool OpeningsVisible { get; set; }
+}
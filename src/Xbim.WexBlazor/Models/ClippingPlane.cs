@@ -0,0 +1,34 @@
+using System.Text.Json.Serialization;
+
+namespace Xbim.WexBlazor.Models;
+
+/// <summary>
+/// Clipping planes of a loaded model. Planes are [a, b, c, d] equations (ax + by + cz + d = 0)
+/// in model coordinates; the normal [a, b, c] points to the half space which stays visible.
+/// </summary>
+public class ClippingPlaneState
+{
+    /// <summary>
+    /// ID of the model in the viewer
+    /// </summary>
+    [JsonPropertyName("modelId")]
+    public int ModelId { get; set; }
+
+    /// <summary>
+    /// Clipping plane A, null if not set. This is the plane moved by the interactive clipping plane.
+    /// </summary>
+    [JsonPropertyName("planeA")]
+    public double[]? PlaneA { get; set; }
+
+    /// <summary>
+    /// Clipping plane B, null if not set
+    /// </summary>
+    [JsonPropertyName("planeB")]
+    public double[]? PlaneB { get; set; }
+
+    /// <summary>
+    /// True if the model is clipped by any plane
+    /// </summary>
+    [JsonIgnore]
+    public bool IsClipped => PlaneA != null || PlaneB != null;
+}
@@ -1,3 +1,4 @@
+using System.Globalization;
 using System.Text.Json.Serialization;
 
 namespace Xbim.WexBlazor.Models;
@@ -5,8 +6,9 @@ namespace Xbim.WexBlazor.Models;
 /// <summary>
 /// Heatmap plugin for data visualization on model elements.
 /// After adding this plugin to the viewer via AddPluginAsync, use the viewer's heatmap methods
-/// (AddHeatmapChannelAsync, AddHeatmapSourceAsync, RenderHeatmapChannelAsync)
-/// to configure and display data.
+/// (AddHeatmapChannelAsync, SetHeatmapSourcesAsync, RenderHeatmapChannelAsync)
+/// to configure and display data, and RemoveHeatmapChannelAsync or ClearHeatmapChannelsAsync
+/// to drop channels which are no longer shown.
 /// </summary>
 public class HeatmapPlugin : ViewerPlugin
 {
@@ -16,6 +18,7 @@ public class HeatmapPlugin : ViewerPlugin
 /// <summary>
 /// The type of heatmap channel, matching the JavaScript ChannelType enum
 /// </summary>
+[JsonConverter(typeof(JsonStringEnumConverter))]
 public enum HeatmapChannelType
 {
     Continuous,
@@ -209,3 +212,114 @@ public class HeatmapSource
     /// </summary>
     public object? Value { get; set; }
 }
+
+/// <summary>
+/// Legend of a heatmap channel, as returned by GetHeatmapLegendAsync.
+/// Depending on the channel type the legend has gradient stops, value ranges, discrete values or a single color.
+/// </summary>
+public class HeatmapLegend
+{
+    [JsonPropertyName("channelId")]
+    public string ChannelId { get; set; } = string.Empty;
+
+    [JsonPropertyName("channelType")]
+    public HeatmapChannelType ChannelType { get; set; }
+
+    [JsonPropertyName("name")]
+    public string Name { get; set; } = string.Empty;
+
+    [JsonPropertyName("description")]
+    public string Description { get; set; } = string.Empty;
+
+    [JsonPropertyName("property")]
+    public string Property { get; set; } = string.Empty;
+
+    [JsonPropertyName("unit")]
+    public string Unit { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Lowest value of a continuous or value ranges channel
+    /// </summary>
+    [JsonPropertyName("min")]
+    public double? Min { get; set; }
+
+    /// <summary>
+    /// Highest value of a continuous or value ranges channel
+    /// </summary>
+    [JsonPropertyName("max")]
+    public double? Max { get; set; }
+
+    /// <summary>
+    /// Gradient colors of a continuous channel with the value at which each color is reached
+    /// </summary>
+    [JsonPropertyName("stops")]
+    public List<HeatmapColorStop> Stops { get; set; } = new();
+
+    /// <summary>
+    /// Ranges of a value ranges channel, ordered by their minimum
+    /// </summary>
+    [JsonPropertyName("ranges")]
+    public List<HeatmapValueRange> Ranges { get; set; } = new();
+
+    /// <summary>
+    /// Values of a discrete channel with their colors
+    /// </summary>
+    [JsonPropertyName("values")]
+    public List<HeatmapDiscreteValue> Values { get; set; } = new();
+
+    /// <summary>
+    /// Color of a constant color channel
+    /// </summary>
+    [JsonPropertyName("color")]
+    public string? Color { get; set; }
+
+    /// <summary>
+    /// Number of sources feeding the channel
+    /// </summary>
+    [JsonPropertyName("sourceCount")]
+    public int SourceCount { get; set; }
+
+    /// <summary>
+    /// CSS linear-gradient of the stops of a continuous channel (e.g. for a legend bar),
+    /// or null if the legend has no stops
+    /// </summary>
+    public string? GetCssGradient(string direction = "to right")
+    {
+        if (Stops.Count == 0)
+            return null;
+        if (Stops.Count == 1)
+            return $"linear-gradient({direction}, {Stops[0].Color}, {Stops[0].Color})";
+
+        var range = Max - Min;
+        var stops = Stops.Select((stop, i) =>
+        {
+            var position = range > 0 ? (stop.Value - Min!.Value) / range.Value : (double)i / (Stops.Count - 1);
+            return $"{stop.Color} {(position * 100).ToString("0.##", CultureInfo.InvariantCulture)}%";
+        });
+        return $"linear-gradient({direction}, {string.Join(", ", stops)})";
+    }
+}
+
+/// <summary>
+/// Gradient color of a continuous heatmap channel
+/// </summary>
+public class HeatmapColorStop
+{
+    [JsonPropertyName("value")]
+    public double Value { get; set; }
+
+    [JsonPropertyName("color")]
+    public string Color { get; set; } = string.Empty;
+}
+
+/// <summary>
+/// Value of a discrete heatmap channel with its color
+/// </summary>
+public class HeatmapDiscreteValue
+{
+    [JsonPropertyName("value")]
+    public string Value { get; set; } = string.Empty;
+
+    [JsonPropertyName("color")]
+    public string Color { get; set; } = string.Empty;
+}
@@ -9,12 +9,21 @@ public class HierarchyNode
     public int? ProductType { get; set; }
     public int? ModelId { get; set; }
     public int ProductCount { get; set; }
+    public double? Elevation { get; set; }
     public bool IsExpanded { get; set; }
     public bool IsSelected { get; set; }
     public List<HierarchyNode> Children { get; set; } = new();
     public object? Tag { get; set; }
 }
 
+public class StoreyInfo
+{
+    public int Id { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public int ModelId { get; set; }
+    public double Elevation { get; set; }
+}
+
 public class ProductTypeInfo
 {
     public int TypeId { get; set; }
@@ -0,0 +1,59 @@
+namespace Xbim.WexBlazor.Models;
+
+/// <summary>
+/// Encoding of captured images
+/// </summary>
+public enum ImageCaptureFormat
+{
+    Png,
+    Jpeg,
+    Webp
+}
+
+/// <summary>
+/// Options for rendering the view to an image
+/// </summary>
+public class ImageCaptureOptions
+{
+    /// <summary>
+    /// Image width in pixels. When only one of width and height is set, the other
+    /// follows the aspect ratio of the viewer. Defaults to the viewer size.
+    /// </summary>
+    public int? Width { get; set; }
+
+    /// <summary>
+    /// Image height in pixels
+    /// </summary>
+    public int? Height { get; set; }
+
+    /// <summary>
+    /// Encoding of the image
+    /// </summary>
+    public ImageCaptureFormat Format { get; set; } = ImageCaptureFormat.Png;
+
+    /// <summary>
+    /// Encoder quality between 0 and 1 for JPEG and WebP images
+    /// </summary>
+    public double? Quality { get; set; }
+
+    /// <summary>
+    /// Render the background transparent (not supported by JPEG)
+    /// </summary>
+    public bool Transparent { get; set; }
+
+    /// <summary>
+    /// Background color in hex format (e.g. "#FFFFFF") of images that are not transparent.
+    /// Defaults to the viewer background.
+    /// </summary>
+    public string? Background { get; set; }
+
+    /// <summary>
+    /// Include the navigation cube and grid in the image
+    /// </summary>
+    public bool IncludePlugins { get; set; } = true;
+
+    /// <summary>
+    /// Maximum size of the encoded image in bytes
+    /// </summary>
+    public long MaxSize { get; set; } = 256 * 1024 * 1024;
+}
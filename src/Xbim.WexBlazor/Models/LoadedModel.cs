@@ -22,6 +22,12 @@ public class LoadedModel : IDisposable
     /// </summary>
     public string Source { get; set; } = string.Empty;
 
+    /// <summary>
+    /// Key identifying the model across sessions (the name, or the source when unnamed).
+    /// Used to store per-model data such as saved views.
+    /// </summary>
+    public string Key => string.IsNullOrEmpty(Name) ? Source : Name;
+
     /// <summary>
     /// Type of source (File, URL, Blob)
     /// </summary>
@@ -66,6 +72,32 @@ public class LoadedModel : IDisposable
     /// Original file format (IFC, wexbim, etc.)
     /// </summary>
     public ModelFormat OriginalFormat { get; set; } = ModelFormat.Wexbim;
+
+    /// <summary>
+    /// Offset [x, y, z] of the model from the origin stored in its wexBIM file, in model units.
+    /// Set through <see cref="Components.XbimViewer.SetModelOffsetAsync"/>.
+    /// </summary>
+    public double[] Offset { get; set; } = new double[3];
+
+    /// <summary>
+    /// Whether the model has been moved from its stored origin
+    /// </summary>
+    public bool IsOffset => Offset.Any(v => v != 0);
+
+    /// <summary>
+    /// Whether the products of the model can be picked. Clicks on a model which is not pickable go through to the models behind it.
+    /// </summary>
+    public bool IsPickable { get; set; } = true;
+
+    /// <summary>
+    /// Whether the model is cut by clipping planes and storey plans
+    /// </summary>
+    public bool IsClippable { get; set; } = true;
+
+    /// <summary>
+    /// Whether the model is always drawn completely, also when adaptive performance drops products
+    /// </summary>
+    public bool IsPinned { get; set; }
     
     public void Dispose()
     {
@@ -128,7 +160,9 @@ public enum ModelChangeType
     Loaded,
     Unloaded,
     Started,
-    Stopped
+    Stopped,
+    Aligned,
+    FlagsChanged
 }
 
 /// <summary>
@@ -0,0 +1,108 @@
+using System.Text.Json.Serialization;
+
+namespace Xbim.WexBlazor.Models;
+
+/// <summary>
+/// Snapping used when picking measurement points
+/// </summary>
+public enum MeasurementSnapMode
+{
+    /// <summary>
+    /// Use the picked surface point
+    /// </summary>
+    None,
+
+    /// <summary>
+    /// Snap to corners of the picked product's bounding box
+    /// </summary>
+    Corners,
+
+    /// <summary>
+    /// Snap to corners and edges of the picked product's bounding box
+    /// </summary>
+    Edges
+}
+
+/// <summary>
+/// How a measurement point was snapped
+/// </summary>
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum MeasurementSnapType
+{
+    None,
+    Corner,
+    Edge
+}
+
+/// <summary>
+/// Options for the distance measurement tool
+/// </summary>
+public class MeasurementOptions
+{
+    /// <summary>
+    /// Snapping applied to picked points
+    /// </summary>
+    public MeasurementSnapMode SnapMode { get; set; } = MeasurementSnapMode.Edges;
+
+    /// <summary>
+    /// Maximum distance in pixels between the cursor and a snap target
+    /// </summary>
+    public int SnapTolerance { get; set; } = 12;
+
+    /// <summary>
+    /// Number of decimals shown in the distance labels
+    /// </summary>
+    public int Precision { get; set; } = 3;
+}
+
+/// <summary>
+/// A point-to-point distance measurement.
+/// Lengths and coordinates are in meters.
+/// </summary>
+public class Measurement
+{
+    [JsonPropertyName("id")]
+    public string Id { get; set; } = string.Empty;
+
+    [JsonPropertyName("start")]
+    public MeasurementPoint Start { get; set; } = new();
+
+    [JsonPropertyName("end")]
+    public MeasurementPoint End { get; set; } = new();
+
+    /// <summary>
+    /// Distance between the start and end points
+    /// </summary>
+    [JsonPropertyName("distance")]
+    public double Distance { get; set; }
+}
+
+/// <summary>
+/// A measured point in model coordinates
+/// </summary>
+public class MeasurementPoint
+{
+    [JsonPropertyName("x")]
+    public double X { get; set; }
+
+    [JsonPropertyName("y")]
+    public double Y { get; set; }
+
+    [JsonPropertyName("z")]
+    public double Z { get; set; }
+
+    /// <summary>
+    /// Product the point was picked on
+    /// </summary>
+    [JsonPropertyName("productId")]
+    public int? ProductId { get; set; }
+
+    /// <summary>
+    /// Model of the product the point was picked on
+    /// </summary>
+    [JsonPropertyName("modelId")]
+    public int? ModelId { get; set; }
+
+    [JsonPropertyName("snap")]
+    public MeasurementSnapType Snap { get; set; }
+}
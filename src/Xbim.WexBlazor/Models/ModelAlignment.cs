@@ -0,0 +1,40 @@
+using System.Text.Json.Serialization;
+
+namespace Xbim.WexBlazor.Models;
+
+/// <summary>
+/// Position of a model relative to the origin (WCS) stored in its wexBIM file.
+/// Coordinates are in model units.
+/// </summary>
+public class ModelAlignment
+{
+    /// <summary>
+    /// ID of the model in the viewer
+    /// </summary>
+    [JsonPropertyName("modelId")]
+    public int ModelId { get; set; }
+
+    /// <summary>
+    /// Origin stored in the wexBIM file [x, y, z]
+    /// </summary>
+    [JsonPropertyName("originalWcs")]
+    public double[] OriginalWcs { get; set; } = new double[3];
+
+    /// <summary>
+    /// Current origin of the model [x, y, z]
+    /// </summary>
+    [JsonPropertyName("wcs")]
+    public double[] Wcs { get; set; } = new double[3];
+
+    /// <summary>
+    /// Offset of the current origin from the stored origin [x, y, z]
+    /// </summary>
+    [JsonPropertyName("offset")]
+    public double[] Offset { get; set; } = new double[3];
+
+    /// <summary>
+    /// Model units per meter
+    /// </summary>
+    [JsonPropertyName("meter")]
+    public double Meter { get; set; } = 1;
+}
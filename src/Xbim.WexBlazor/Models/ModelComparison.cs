@@ -0,0 +1,175 @@
+using System.Text.Json.Serialization;
+
+namespace Xbim.WexBlazor.Models;
+
+/// <summary>
+/// How a product changed between two versions of a model
+/// </summary>
+public enum ComparisonCategory
+{
+    Unchanged = 0,
+    Added = 1,
+    Removed = 2,
+    Modified = 3
+}
+
+/// <summary>
+/// Product of a model version. Products of two versions are matched by their GUID.
+/// </summary>
+public class ProductVersion
+{
+    /// <summary>
+    /// Product ID in the viewer (the IFC entity label)
+    /// </summary>
+    [JsonPropertyName("id")]
+    public int Id { get; set; }
+
+    /// <summary>
+    /// IFC GlobalId or any other ID which stays the same between versions
+    /// </summary>
+    [JsonPropertyName("guid")]
+    public string Guid { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Hash of the properties of the product. A product is modified when the hash changed.
+    /// Null if the properties are not compared.
+    /// </summary>
+    [JsonPropertyName("hash")]
+    public string? Hash { get; set; }
+}
+
+/// <summary>
+/// RGBA colours (0-255) of the comparison categories
+/// </summary>
+public class ModelComparisonColors
+{
+    [JsonPropertyName("added")]
+    public int[] Added { get; set; } = { 40, 167, 69, 255 };
+
+    [JsonPropertyName("removed")]
+    public int[] Removed { get; set; } = { 220, 53, 69, 255 };
+
+    [JsonPropertyName("modified")]
+    public int[] Modified { get; set; } = { 255, 153, 0, 255 };
+
+    /// <summary>
+    /// Unchanged products are transparent by default so the changes stand out
+    /// </summary>
+    [JsonPropertyName("unchanged")]
+    public int[] Unchanged { get; set; } = { 180, 180, 180, 60 };
+
+    /// <summary>
+    /// Gets the colour of a category
+    /// </summary>
+    public int[] GetColor(ComparisonCategory category) => category switch
+    {
+        ComparisonCategory.Added => Added,
+        ComparisonCategory.Removed => Removed,
+        ComparisonCategory.Modified => Modified,
+        _ => Unchanged
+    };
+}
+
+/// <summary>
+/// Options of a model comparison
+/// </summary>
+public class ModelComparisonOptions
+{
+    /// <summary>
+    /// Distance in meters a bounding box may move before the product counts as modified
+    /// </summary>
+    [JsonPropertyName("tolerance")]
+    public double Tolerance { get; set; } = 0.001;
+
+    /// <summary>
+    /// Whether products with a changed bounding box are modified
+    /// </summary>
+    [JsonPropertyName("compareGeometry")]
+    public bool CompareGeometry { get; set; } = true;
+
+    /// <summary>
+    /// Whether products with a changed property hash are modified
+    /// </summary>
+    [JsonPropertyName("compareProperties")]
+    public bool CompareProperties { get; set; } = true;
+
+    [JsonPropertyName("colors")]
+    public ModelComparisonColors Colors { get; set; } = new();
+}
+
+/// <summary>
+/// Added, removed or modified product
+/// </summary>
+public class ModelComparisonChange
+{
+    [JsonPropertyName("guid")]
+    public string Guid { get; set; } = string.Empty;
+
+    [JsonPropertyName("category")]
+    public ComparisonCategory Category { get; set; }
+
+    /// <summary>
+    /// Product ID in the base version, null for added products
+    /// </summary>
+    [JsonPropertyName("baseProductId")]
+    public int? BaseProductId { get; set; }
+
+    /// <summary>
+    /// Product ID in the new version, null for removed products
+    /// </summary>
+    [JsonPropertyName("productId")]
+    public int? ProductId { get; set; }
+
+    [JsonPropertyName("geometryChanged")]
+    public bool GeometryChanged { get; set; }
+
+    [JsonPropertyName("propertiesChanged")]
+    public bool PropertiesChanged { get; set; }
+}
+
+/// <summary>
+/// Result of comparing two versions of a model
+/// </summary>
+public class ModelComparisonResult
+{
+    /// <summary>
+    /// ID of the older version
+    /// </summary>
+    [JsonPropertyName("baseModelId")]
+    public int BaseModelId { get; set; }
+
+    /// <summary>
+    /// ID of the newer version
+    /// </summary>
+    [JsonPropertyName("modelId")]
+    public int ModelId { get; set; }
+
+    [JsonPropertyName("addedCount")]
+    public int AddedCount { get; set; }
+
+    [JsonPropertyName("removedCount")]
+    public int RemovedCount { get; set; }
+
+    [JsonPropertyName("modifiedCount")]
+    public int ModifiedCount { get; set; }
+
+    [JsonPropertyName("unchangedCount")]
+    public int UnchangedCount { get; set; }
+
+    /// <summary>
+    /// Added, removed and modified products. Unchanged products are only counted.
+    /// </summary>
+    [JsonPropertyName("changes")]
+    public List<ModelComparisonChange> Changes { get; set; } = new();
+
+    /// <summary>
+    /// Gets the number of products in a category
+    /// </summary>
+    public int GetCount(ComparisonCategory category) => category switch
+    {
+        ComparisonCategory.Added => AddedCount,
+        ComparisonCategory.Removed => RemovedCount,
+        ComparisonCategory.Modified => ModifiedCount,
+        _ => UnchangedCount
+    };
+}
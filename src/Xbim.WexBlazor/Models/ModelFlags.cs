@@ -0,0 +1,27 @@
+using System.Text.Json.Serialization;
+
+namespace Xbim.WexBlazor.Models;
+
+/// <summary>
+/// Per-model flags of the viewer
+/// </summary>
+public class ModelFlags
+{
+    /// <summary>
+    /// Whether the products of the model can be picked (selected, hovered, measured)
+    /// </summary>
+    [JsonPropertyName("pickable")]
+    public bool Pickable { get; set; } = true;
+
+    /// <summary>
+    /// Whether the model is cut by clipping planes and storey plans
+    /// </summary>
+    [JsonPropertyName("clippable")]
+    public bool Clippable { get; set; } = true;
+
+    /// <summary>
+    /// Whether the model is always drawn completely, also when adaptive performance drops products
+    /// </summary>
+    [JsonPropertyName("pinned")]
+    public bool Pinned { get; set; }
+}
@@ -0,0 +1,193 @@
+using System.Text.Json.Serialization;
+
+namespace Xbim.WexBlazor.Models;
+
+/// <summary>
+/// Phase of a model load
+/// </summary>
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum ModelLoadPhase
+{
+    /// <summary>
+    /// Waiting for other models to finish loading
+    /// </summary>
+    Queued,
+
+    /// <summary>
+    /// Downloading the wexBIM file
+    /// </summary>
+    Downloading,
+
+    /// <summary>
+    /// Reading the geometry
+    /// </summary>
+    Reading,
+
+    /// <summary>
+    /// Uploading the geometry to the GPU
+    /// </summary>
+    Loading
+}
+
+/// <summary>
+/// Why a model could not be loaded
+/// </summary>
+[JsonConverter(typeof(JsonStringEnumConverter))]
+public enum ModelLoadErrorReason
+{
+    /// <summary>
+    /// The viewer is not initialized
+    /// </summary>
+    Unavailable,
+
+    /// <summary>
+    /// The file could not be downloaded (e.g. not found or blocked by CORS)
+    /// </summary>
+    Download,
+
+    /// <summary>
+    /// The server rejected the request (401 or 403), also after refreshing the access token
+    /// </summary>
+    Unauthorized,
+
+    /// <summary>
+    /// The file is not a valid wexBIM file
+    /// </summary>
+    Parse,
+
+    /// <summary>
+    /// Loading did not finish within <see cref="ModelLoadOptions.Timeout"/>
+    /// </summary>
+    Timeout,
+
+    /// <summary>
+    /// Loading was cancelled
+    /// </summary>
+    Cancelled,
+
+    /// <summary>
+    /// Any other error
+    /// </summary>
+    Error
+}
+
+/// <summary>
+/// Options for loading a model with <see cref="Components.XbimViewer.TryLoadModelAsync"/>
+/// </summary>
+public class ModelLoadOptions
+{
+    /// <summary>
+    /// Display name of the model. Defaults to the file name of the URL.
+    /// </summary>
+    public string? Name { get; set; }
+
+    /// <summary>
+    /// Type of source
+    /// </summary>
+    public ModelSourceType SourceType { get; set; } = ModelSourceType.Url;
+
+    /// <summary>
+    /// Custom tag data associated with the model
+    /// </summary>
+    public object? Tag { get; set; }
+
+    /// <summary>
+    /// HTTP headers sent with the download (e.g. an API key)
+    /// </summary>
+    public IDictionary<string, string>? Headers { get; set; }
+
+    /// <summary>
+    /// Provides a bearer token sent with the download. It is called with true to refresh the token
+    /// when the server responds with 401, and the download is retried once.
+    /// Defaults to <see cref="Components.XbimViewer.ModelAccessTokenProvider"/>.
+    /// </summary>
+    public Func<bool, Task<string?>>? AccessTokenProvider { get; set; }
+
+    /// <summary>
+    /// Time the load may take once it has started, or null to wait indefinitely
+    /// </summary>
+    public TimeSpan? Timeout { get; set; }
+
+    /// <summary>
+    /// Offset [x, y, z] applied once the model is loaded, e.g. a saved <see cref="LoadedModel.Offset"/>
+    /// </summary>
+    public double[]? Offset { get; set; }
+
+    /// <summary>
+    /// Receives the progress of this load
+    /// </summary>
+    public IProgress<ModelLoadProgress>? Progress { get; set; }
+}
+
+/// <summary>
+/// Progress of a model load
+/// </summary>
+public class ModelLoadProgress
+{
+    /// <summary>
+    /// ID of the load
+    /// </summary>
+    [JsonPropertyName("loadId")]
+    public string LoadId { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Name of the model being loaded
+    /// </summary>
+    [JsonIgnore]
+    public string Name { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Current phase
+    /// </summary>
+    [JsonPropertyName("phase")]
+    public ModelLoadPhase Phase { get; set; }
+
+    /// <summary>
+    /// Progress of the current phase (0-100)
+    /// </summary>
+    [JsonPropertyName("percent")]
+    public int Percent { get; set; }
+
+    /// <summary>
+    /// Progress of the whole load (0-100)
+    /// </summary>
+    [JsonPropertyName("totalPercent")]
+    public int TotalPercent { get; set; }
+
+    /// <summary>
+    /// Progress message of the viewer
+    /// </summary>
+    [JsonPropertyName("message")]
+    public string? Message { get; set; }
+}
+
+/// <summary>
+/// Result of loading a model
+/// </summary>
+public class ModelLoadResult
+{
+    /// <summary>
+    /// The loaded model, or null if loading failed
+    /// </summary>
+    public LoadedModel? Model { get; set; }
+
+    /// <summary>
+    /// Whether the model was loaded
+    /// </summary>
+    public bool Success => Model != null;
+
+    /// <summary>
+    /// Why the model could not be loaded
+    /// </summary>
+    public ModelLoadErrorReason? ErrorReason { get; set; }
+
+    /// <summary>
+    /// Error message if loading failed
+    /// </summary>
+    public string? ErrorMessage { get; set; }
+
+    /// <summary>
+    /// HTTP status code of a failed download, if known
+    /// </summary>
+    public int? StatusCode { get; set; }
+}
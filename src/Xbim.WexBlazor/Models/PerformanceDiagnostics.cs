@@ -0,0 +1,165 @@
+using System.Globalization;
+using System.Text;
+using System.Text.Json.Serialization;
+
+namespace Xbim.WexBlazor.Models;
+
+/// <summary>
+/// Performance rating of the viewer, based on the frame rate
+/// </summary>
+public enum PerformanceRating
+{
+    VeryLow = 0,
+    Low = 1,
+    Medium = 2,
+    High = 3
+}
+
+/// <summary>
+/// Measure used to find heavy products
+/// </summary>
+public enum ProductAnalysisMeasure
+{
+    /// <summary>
+    /// Number of triangles
+    /// </summary>
+    Triangles,
+
+    /// <summary>
+    /// Number of triangles per volume of the bounding box
+    /// </summary>
+    Density
+}
+
+/// <summary>
+/// Current frame rate and performance rating of the viewer
+/// </summary>
+public class PerformanceStats
+{
+    /// <summary>
+    /// Frames per second
+    /// </summary>
+    [JsonPropertyName("fps")]
+    public int Fps { get; set; }
+
+    /// <summary>
+    /// Performance rating, updated about every 500 ms
+    /// </summary>
+    [JsonPropertyName("performance")]
+    public PerformanceRating Performance { get; set; }
+
+    /// <summary>
+    /// Whether the viewer drops small products while navigating when the frame rate is low
+    /// </summary>
+    [JsonPropertyName("adaptivePerformanceOn")]
+    public bool AdaptivePerformanceOn { get; set; }
+}
+
+/// <summary>
+/// Amount of geometry of a product
+/// </summary>
+public class ProductAnalysis
+{
+    [JsonPropertyName("modelId")]
+    public int ModelId { get; set; }
+
+    [JsonPropertyName("productId")]
+    public int ProductId { get; set; }
+
+    /// <summary>
+    /// Product type ID
+    /// </summary>
+    [JsonPropertyName("productType")]
+    public int? ProductType { get; set; }
+
+    /// <summary>
+    /// IFC name of the product type (e.g. IFCWALL)
+    /// </summary>
+    [JsonPropertyName("productTypeName")]
+    public string? ProductTypeName { get; set; }
+
+    /// <summary>
+    /// Number of triangles
+    /// </summary>
+    [JsonPropertyName("triangles")]
+    public int Triangles { get; set; }
+
+    /// <summary>
+    /// Size of the bounding box (length of its diagonal)
+    /// </summary>
+    [JsonPropertyName("size")]
+    public double Size { get; set; }
+
+    /// <summary>
+    /// Volume of the bounding box
+    /// </summary>
+    [JsonPropertyName("volume")]
+    public double Volume { get; set; }
+
+    /// <summary>
+    /// Number of triangles per volume of the bounding box
+    /// </summary>
+    [JsonPropertyName("density")]
+    public double Density { get; set; }
+
+    /// <summary>
+    /// Readable name of the product type
+    /// </summary>
+    public string TypeName => ProductType.HasValue
+        ? ProductTypeNames.GetDisplayName(ProductType.Value)
+        : ProductTypeName ?? "Unknown";
+}
+
+/// <summary>
+/// Heaviest products of the loaded models
+/// </summary>
+public class ProductAnalysisReport
+{
+    /// <summary>
+    /// Heaviest products in descending order
+    /// </summary>
+    [JsonPropertyName("products")]
+    public List<ProductAnalysis> Products { get; set; } = new();
+
+    /// <summary>
+    /// Number of analysed (or isolated) products, including those not in <see cref="Products"/>
+    /// </summary>
+    [JsonPropertyName("productCount")]
+    public int ProductCount { get; set; }
+
+    /// <summary>
+    /// Number of triangles of all analysed (or isolated) products
+    /// </summary>
+    [JsonPropertyName("triangleCount")]
+    public long TriangleCount { get; set; }
+
+    /// <summary>
+    /// Writes the products as CSV, e.g. to send them back to the modeller
+    /// </summary>
+    /// <param name="modelName">Returns the name of a model ID; defaults to the ID</param>
+    public string ToCsv(Func<int, string>? modelName = null)
+    {
+        var csv = new StringBuilder();
+        csv.AppendLine("Model,Product ID,IFC Type,Type,Triangles,Density,Volume,Size");
+        foreach (var p in Products)
+        {
+            csv.AppendLine(string.Join(",",
+                Escape(modelName?.Invoke(p.ModelId) ?? p.ModelId.ToString(CultureInfo.InvariantCulture)),
+                p.ProductId.ToString(CultureInfo.InvariantCulture),
+                Escape(p.ProductTypeName ?? string.Empty),
+                Escape(p.TypeName),
+                p.Triangles.ToString(CultureInfo.InvariantCulture),
+                p.Density.ToString("G6", CultureInfo.InvariantCulture),
+                p.Volume.ToString("G6", CultureInfo.InvariantCulture),
+                p.Size.ToString("G6", CultureInfo.InvariantCulture)));
+        }
+        return csv.ToString();
+    }
+
+    private static string Escape(string value)
+    {
+        return value.IndexOfAny(new[] { ',', '"', '\n', '\r' }) >= 0
+            ? $"\"{value.Replace("\"", "\"\"")}\""
+            : value;
+    }
+}
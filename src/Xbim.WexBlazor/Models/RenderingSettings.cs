@@ -0,0 +1,39 @@
+using System.Text.Json.Serialization;
+
+namespace Xbim.WexBlazor.Models;
+
+/// <summary>
+/// Rendering mode and image adjustments of the viewer
+/// </summary>
+public class RenderingSettings
+{
+    /// <summary>
+    /// Current rendering mode
+    /// </summary>
+    [JsonPropertyName("renderingMode")]
+    public ViewerRenderingMode RenderingMode { get; set; } = ViewerRenderingMode.Normal;
+
+    /// <summary>
+    /// Colour of ghosted elements in x-ray modes as RGBA components between 0 and 255
+    /// </summary>
+    [JsonPropertyName("xrayColour")]
+    public int[] XRayColor { get; set; } = { 80, 80, 80, 150 };
+
+    /// <summary>
+    /// Gamma correction exponent (1 = unchanged)
+    /// </summary>
+    [JsonPropertyName("gamma")]
+    public double Gamma { get; set; } = 1;
+
+    /// <summary>
+    /// Contrast factor (1 = unchanged)
+    /// </summary>
+    [JsonPropertyName("contrast")]
+    public double Contrast { get; set; } = 1;
+
+    /// <summary>
+    /// Brightness offset added to each colour component (0 = unchanged)
+    /// </summary>
+    [JsonPropertyName("brightness")]
+    public double Brightness { get; set; }
+}
@@ -0,0 +1,137 @@
+using System.Text.Json.Serialization;
+
+namespace Xbim.WexBlazor.Models;
+
+/// <summary>
+/// A named view which can be applied again to reproduce the camera, visibility,
+/// selection, styles, clipping planes and section box of the viewer.
+/// </summary>
+public class SavedView
+{
+    /// <summary>
+    /// Unique ID of the view
+    /// </summary>
+    [JsonPropertyName("id")]
+    public string Id { get; set; } = Guid.NewGuid().ToString("N");
+
+    /// <summary>
+    /// Display name
+    /// </summary>
+    [JsonPropertyName("name")]
+    public string Name { get; set; } = string.Empty;
+
+    [JsonPropertyName("createdAt")]
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+    [JsonPropertyName("camera")]
+    public ViewerCamera? Camera { get; set; }
+
+    /// <summary>
+    /// State of each model in the view
+    /// </summary>
+    [JsonPropertyName("models")]
+    public List<SavedViewModelState> Models { get; set; } = new();
+
+    /// <summary>
+    /// Section box, or null when the view is not cropped
+    /// </summary>
+    [JsonPropertyName("sectionBox")]
+    public SavedViewSectionBox? SectionBox { get; set; }
+
+    /// <summary>
+    /// JPEG thumbnail as a data URL
+    /// </summary>
+    [JsonPropertyName("thumbnail")]
+    public string? Thumbnail { get; set; }
+}
+
+/// <summary>
+/// State of a single model in a saved view
+/// </summary>
+public class SavedViewModelState
+{
+    /// <summary>
+    /// Key of the model the state belongs to (see <see cref="LoadedModel.Key"/>).
+    /// Used to find the model when the view is applied in another session.
+    /// </summary>
+    [JsonPropertyName("modelKey")]
+    public string? ModelKey { get; set; }
+
+    /// <summary>
+    /// Viewer model ID at the time the view was captured
+    /// </summary>
+    [JsonPropertyName("modelId")]
+    public int ModelId { get; set; }
+
+    /// <summary>
+    /// Styled products in the compact form of the viewer's getModelState: [productId, state + (style &lt;&lt; 8)]
+    /// </summary>
+    [JsonPropertyName("styles")]
+    public List<int[]> Styles { get; set; } = new();
+
+    [JsonPropertyName("hidden")]
+    public List<int> Hidden { get; set; } = new();
+
+    [JsonPropertyName("highlighted")]
+    public List<int> Highlighted { get; set; } = new();
+
+    /// <summary>
+    /// Isolated products, or null when the model is not isolated
+    /// </summary>
+    [JsonPropertyName("isolated")]
+    public List<int>? Isolated { get; set; }
+
+    /// <summary>
+    /// Normal equation [a, b, c, d] of the A clipping plane
+    /// </summary>
+    [JsonPropertyName("clippingPlaneA")]
+    public double[]? ClippingPlaneA { get; set; }
+
+    /// <summary>
+    /// Normal equation [a, b, c, d] of the B clipping plane
+    /// </summary>
+    [JsonPropertyName("clippingPlaneB")]
+    public double[]? ClippingPlaneB { get; set; }
+}
+
+/// <summary>
+/// Section box of a saved view in model coordinates
+/// </summary>
+public class SavedViewSectionBox
+{
+    [JsonPropertyName("location")]
+    public double[] Location { get; set; } = new double[3];
+
+    [JsonPropertyName("lengthX")]
+    public double LengthX { get; set; }
+
+    [JsonPropertyName("lengthY")]
+    public double LengthY { get; set; }
+
+    [JsonPropertyName("lengthZ")]
+    public double LengthZ { get; set; }
+
+    [JsonPropertyName("rotationX")]
+    public double RotationX { get; set; }
+
+    [JsonPropertyName("rotationY")]
+    public double RotationY { get; set; }
+
+    [JsonPropertyName("rotationZ")]
+    public double RotationZ { get; set; }
+}
+
+/// <summary>
+/// Saved views of a model, as exported to and imported from JSON
+/// </summary>
+public class SavedViewCollection
+{
+    [JsonPropertyName("version")]
+    public int Version { get; set; } = 1;
+
+    [JsonPropertyName("modelKey")]
+    public string? ModelKey { get; set; }
+
+    [JsonPropertyName("views")]
+    public List<SavedView> Views { get; set; } = new();
+}
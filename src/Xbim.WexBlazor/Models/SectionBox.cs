@@ -0,0 +1,74 @@
+using System.Text.Json.Serialization;
+
+namespace Xbim.WexBlazor.Models;
+
+/// <summary>
+/// Section box in model coordinates. The box is defined by its centre, size and rotation;
+/// bounds and planes are filled in when the box is read from the viewer.
+/// </summary>
+public class SectionBox
+{
+    /// <summary>
+    /// Centre of the box
+    /// </summary>
+    [JsonPropertyName("location")]
+    public double[] Location { get; set; } = new double[3];
+
+    [JsonPropertyName("lengthX")]
+    public double LengthX { get; set; }
+
+    [JsonPropertyName("lengthY")]
+    public double LengthY { get; set; }
+
+    [JsonPropertyName("lengthZ")]
+    public double LengthZ { get; set; }
+
+    /// <summary>
+    /// Rotation around the X axis in degrees. Section box controls only handle boxes without rotation.
+    /// </summary>
+    [JsonPropertyName("rotationX")]
+    public double RotationX { get; set; }
+
+    [JsonPropertyName("rotationY")]
+    public double RotationY { get; set; }
+
+    [JsonPropertyName("rotationZ")]
+    public double RotationZ { get; set; }
+
+    /// <summary>
+    /// Minimum corner of the axis aligned extents of the box (read only)
+    /// </summary>
+    [JsonPropertyName("min")]
+    public double[]? Min { get; set; }
+
+    /// <summary>
+    /// Maximum corner of the axis aligned extents of the box (read only)
+    /// </summary>
+    [JsonPropertyName("max")]
+    public double[]? Max { get; set; }
+
+    /// <summary>
+    /// Faces of the box with outward directions in the order +X, -X, +Y, -Y, +Z, -Z (read only)
+    /// </summary>
+    [JsonPropertyName("planes")]
+    public List<BcfClippingPlane>? Planes { get; set; }
+
+    /// <summary>
+    /// Creates an axis aligned box from its minimum and maximum corners
+    /// </summary>
+    public static SectionBox FromBounds(double[] min, double[] max)
+    {
+        ArgumentNullException.ThrowIfNull(min);
+        ArgumentNullException.ThrowIfNull(max);
+        if (min.Length != 3 || max.Length != 3)
+            throw new ArgumentException("Corners must have three coordinates.", min.Length != 3 ? nameof(min) : nameof(max));
+
+        return new SectionBox
+        {
+            Location = new[] { (min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2 },
+            LengthX = Math.Abs(max[0] - min[0]),
+            LengthY = Math.Abs(max[1] - min[1]),
+            LengthZ = Math.Abs(max[2] - min[2])
+        };
+    }
+}
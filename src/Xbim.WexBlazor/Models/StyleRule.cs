@@ -0,0 +1,220 @@
+using System.Text.Json.Serialization;
+
+namespace Xbim.WexBlazor.Models;
+
+/// <summary>
+/// How a style rule selects products
+/// </summary>
+public enum StyleRuleType
+{
+    /// <summary>
+    /// Products of an IFC type (e.g. IfcWall, including its standard and elemented cases)
+    /// </summary>
+    ProductType,
+
+    /// <summary>
+    /// Products with a property value (or with the property at all when no value is given)
+    /// </summary>
+    PropertyValue,
+
+    /// <summary>
+    /// Products with a numeric property value in a range, optionally coloured with a gradient
+    /// </summary>
+    PropertyRange
+}
+
+/// <summary>
+/// Colour coding rule applied by <see cref="Services.StylingService"/>.
+/// Rules are evaluated in order and the first rule matching a product wins.
+/// </summary>
+public class StyleRule
+{
+    /// <summary>
+    /// How the rule selects products
+    /// </summary>
+    public StyleRuleType Type { get; set; }
+
+    /// <summary>
+    /// Legend label. Defaults to a description of the rule.
+    /// </summary>
+    public string? Label { get; set; }
+
+    /// <summary>
+    /// Colour in hex format (e.g. "#808080" or "#FF800080" with alpha).
+    /// For gradients this is the colour of the lowest value.
+    /// </summary>
+    public string Color { get; set; } = "#808080";
+
+    /// <summary>
+    /// IFC type name for <see cref="StyleRuleType.ProductType"/> rules (e.g. "IfcWall")
+    /// </summary>
+    public string? ProductType { get; set; }
+
+    /// <summary>
+    /// Property set (group) name. Null matches the property in any set.
+    /// </summary>
+    public string? PropertySet { get; set; }
+
+    /// <summary>
+    /// Property name for property rules (e.g. "FireRating")
+    /// </summary>
+    public string? PropertyName { get; set; }
+
+    /// <summary>
+    /// Value for <see cref="StyleRuleType.PropertyValue"/> rules. Numbers are compared numerically,
+    /// text ignoring case. Null matches every product with the property.
+    /// </summary>
+    public string? Value { get; set; }
+
+    /// <summary>
+    /// Lower bound (inclusive) for <see cref="StyleRuleType.PropertyRange"/> rules.
+    /// Null uses the lowest value found.
+    /// </summary>
+    public double? Min { get; set; }
+
+    /// <summary>
+    /// Upper bound (inclusive) for <see cref="StyleRuleType.PropertyRange"/> rules.
+    /// Null uses the highest value found.
+    /// </summary>
+    public double? Max { get; set; }
+
+    /// <summary>
+    /// Colour of the highest value of a range. When set the range is split into
+    /// <see cref="GradientSteps"/> bands coloured from <see cref="Color"/> to this colour.
+    /// </summary>
+    public string? MaxColor { get; set; }
+
+    /// <summary>
+    /// Number of gradient bands
+    /// </summary>
+    public int GradientSteps { get; set; } = 5;
+
+    /// <summary>
+    /// Creates a rule colouring all products of an IFC type
+    /// </summary>
+    public static StyleRule ForType(string productType, string color, string? label = null)
+    {
+        return new StyleRule
+        {
+            Type = StyleRuleType.ProductType,
+            ProductType = productType,
+            Color = color,
+            Label = label
+        };
+    }
+
+    /// <summary>
+    /// Creates a rule colouring products with a property value
+    /// </summary>
+    public static StyleRule ForValue(string propertyName, string? value, string color, string? propertySet = null, string? label = null)
+    {
+        return new StyleRule
+        {
+            Type = StyleRuleType.PropertyValue,
+            PropertyName = propertyName,
+            PropertySet = propertySet,
+            Value = value,
+            Color = color,
+            Label = label
+        };
+    }
+
+    /// <summary>
+    /// Creates a rule colouring products by a numeric property with a gradient from minColor to maxColor
+    /// </summary>
+    public static StyleRule ForRange(string propertyName, double? min, double? max, string minColor, string maxColor, int steps = 5, string? propertySet = null, string? label = null)
+    {
+        return new StyleRule
+        {
+            Type = StyleRuleType.PropertyRange,
+            PropertyName = propertyName,
+            PropertySet = propertySet,
+            Min = min,
+            Max = max,
+            Color = minColor,
+            MaxColor = maxColor,
+            GradientSteps = steps,
+            Label = label
+        };
+    }
+}
+
+/// <summary>
+/// Products coloured with one style. Layers are produced from style rules and applied in order;
+/// a product takes the style of the first layer containing it.
+/// </summary>
+public class StyleLayer
+{
+    /// <summary>
+    /// Legend label
+    /// </summary>
+    [JsonIgnore]
+    public string Label { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Index of the rule the layer was created from
+    /// </summary>
+    [JsonIgnore]
+    public int RuleIndex { get; set; }
+
+    /// <summary>
+    /// RGBA colour components between 0 and 255
+    /// </summary>
+    [JsonPropertyName("color")]
+    public int[] Color { get; set; } = { 128, 128, 128, 255 };
+
+    /// <summary>
+    /// IFC type names resolved by the viewer
+    /// </summary>
+    [JsonPropertyName("productTypes")]
+    public List<string>? ProductTypes { get; set; }
+
+    /// <summary>
+    /// Products of the layer
+    /// </summary>
+    [JsonPropertyName("products")]
+    public List<StyledProduct>? Products { get; set; }
+}
+
+/// <summary>
+/// Product reference in a <see cref="StyleLayer"/>
+/// </summary>
+public class StyledProduct
+{
+    [JsonPropertyName("id")]
+    public int Id { get; set; }
+
+    [JsonPropertyName("model")]
+    public int ModelId { get; set; }
+}
+
+/// <summary>
+/// Legend entry of applied style rules
+/// </summary>
+public class StyleLegendEntry
+{
+    /// <summary>
+    /// Legend label
+    /// </summary>
+    public string Label { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Colour in hex format (#RRGGBB, or #RRGGBBAA when transparent)
+    /// </summary>
+    public string Color { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Index of the rule the entry was created from
+    /// </summary>
+    public int RuleIndex { get; set; }
+
+    /// <summary>
+    /// Viewer style index
+    /// </summary>
+    public int StyleIndex { get; set; }
+
+    /// <summary>
+    /// Number of products coloured with the entry
+    /// </summary>
+    public int Count { get; set; }
+}
@@ -0,0 +1,64 @@
+using System.Text.Json.Serialization;
+
+namespace Xbim.WexBlazor.Models;
+
+/// <summary>
+/// Camera state of the viewer. Can be persisted and applied again to reproduce an exact view.
+/// Position, direction and up are in model coordinates and do not depend on the loaded models.
+/// </summary>
+public class ViewerCamera
+{
+    /// <summary>
+    /// Camera position in model coordinates (WCS included)
+    /// </summary>
+    [JsonPropertyName("position")]
+    public double[] Position { get; set; } = new double[3];
+
+    /// <summary>
+    /// View direction
+    /// </summary>
+    [JsonPropertyName("direction")]
+    public double[] Direction { get; set; } = new double[3];
+
+    /// <summary>
+    /// Up vector
+    /// </summary>
+    [JsonPropertyName("up")]
+    public double[] Up { get; set; } = new double[3];
+
+    /// <summary>
+    /// Camera type (see <see cref="ViewerConstants.CameraType"/>)
+    /// </summary>
+    [JsonPropertyName("type")]
+    public int Type { get; set; } = ViewerConstants.CameraType.Perspective;
+
+    /// <summary>
+    /// Field of view of the perspective camera in degrees
+    /// </summary>
+    [JsonPropertyName("fov")]
+    public double FieldOfView { get; set; } = 45;
+
+    /// <summary>
+    /// View height of the orthographic camera in model units
+    /// </summary>
+    [JsonPropertyName("height")]
+    public double Height { get; set; }
+
+    /// <summary>
+    /// World coordinate system offset the matrices are relative to
+    /// </summary>
+    [JsonPropertyName("wcs")]
+    public double[]? Wcs { get; set; }
+
+    /// <summary>
+    /// Model view matrix (column-major). Only used when position and direction are not set.
+    /// </summary>
+    [JsonPropertyName("mvMatrix")]
+    public double[]? ModelViewMatrix { get; set; }
+
+    /// <summary>
+    /// Projection matrix (column-major). Read only, derived from type, field of view and height.
+    /// </summary>
+    [JsonPropertyName("pMatrix")]
+    public double[]? ProjectionMatrix { get; set; }
+}
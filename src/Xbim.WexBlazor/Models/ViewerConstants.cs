@@ -53,6 +53,19 @@ public static class ViewerConstants
         public const int Unstyled = 225;
     }
 
+    /// <summary>
+    /// Ranges of the 225 style indices shared by the heatmap plugin, style layers and the model comparison.
+    /// Each feature stays within its range: the heatmap fails to render a channel when its styles run out,
+    /// style layers are allocated downwards from <see cref="ComparisonStart"/> - 1.
+    /// </summary>
+    public static class StyleRange
+    {
+        public const int HeatmapStart = 0;
+        public const int StyleLayersStart = 125;
+        public const int ComparisonStart = 221;
+        public const int Count = 225;
+    }
+
     /// <summary>
     /// Navigation mode values for viewer interaction
     /// </summary>
@@ -64,7 +77,34 @@ public static class ViewerConstants
         public const string Zoom = "zoom";
         public const string LookAround = "look-around";
         public const string Walk = "walk";
+        public const string LookAt = "look-at";
+        public const string LockedOrbit = "locked-orbit";
         public const string None = "none";
     }
 }
 
+/// <summary>
+/// Rendering modes of the viewer. Values match <see cref="ViewerConstants.RenderingMode"/>.
+/// </summary>
+public enum ViewerRenderingMode
+{
+    /// <summary>
+    /// Elements are rendered with their own colours
+    /// </summary>
+    Normal = ViewerConstants.RenderingMode.Normal,
+
+    /// <summary>
+    /// Elements are rendered in shades of gray
+    /// </summary>
+    Grayscale = ViewerConstants.RenderingMode.Grayscale,
+
+    /// <summary>
+    /// Highlighted and x-ray visible elements are rendered solid, everything else as transparent ghosts
+    /// </summary>
+    XRay = ViewerConstants.RenderingMode.XRay,
+
+    /// <summary>
+    /// Like <see cref="XRay"/>, but solid elements are drawn on top of the ghosts so they stay visible behind other elements
+    /// </summary>
+    XRayUltra = ViewerConstants.RenderingMode.XRayUltra
+}
@@ -0,0 +1,27 @@
+using System.Text.Json.Serialization;
+
+namespace Xbim.WexBlazor.Models;
+
+/// <summary>
+/// What a viewer mirrors from the other viewers of its link group
+/// </summary>
+public class ViewerLinkChannels
+{
+    /// <summary>
+    /// Whether camera moves are mirrored
+    /// </summary>
+    [JsonPropertyName("camera")]
+    public bool Camera { get; set; } = true;
+
+    /// <summary>
+    /// Whether the selection (highlighted products) is mirrored
+    /// </summary>
+    [JsonPropertyName("selection")]
+    public bool Selection { get; set; } = true;
+
+    /// <summary>
+    /// Whether hidden and isolated products are mirrored
+    /// </summary>
+    [JsonPropertyName("visibility")]
+    public bool Visibility { get; set; } = true;
+}
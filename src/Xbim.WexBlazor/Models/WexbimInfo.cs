@@ -0,0 +1,110 @@
+using System.Text.Json.Serialization;
+
+namespace Xbim.WexBlazor.Models;
+
+/// <summary>
+/// Summary of a wexBIM file read from its header, without loading the geometry
+/// </summary>
+public class WexbimInfo
+{
+    /// <summary>
+    /// Version of the wexBIM format
+    /// </summary>
+    [JsonPropertyName("version")]
+    public int Version { get; set; }
+
+    [JsonPropertyName("shapeCount")]
+    public int ShapeCount { get; set; }
+
+    [JsonPropertyName("vertexCount")]
+    public int VertexCount { get; set; }
+
+    [JsonPropertyName("triangleCount")]
+    public int TriangleCount { get; set; }
+
+    [JsonPropertyName("matrixCount")]
+    public int MatrixCount { get; set; }
+
+    [JsonPropertyName("productCount")]
+    public int ProductCount { get; set; }
+
+    [JsonPropertyName("styleCount")]
+    public int StyleCount { get; set; }
+
+    /// <summary>
+    /// Model units per meter
+    /// </summary>
+    [JsonPropertyName("oneMeter")]
+    public double OneMeter { get; set; }
+
+    /// <summary>
+    /// Origin (WCS) of the model [x, y, z]; zero before version 4
+    /// </summary>
+    [JsonPropertyName("wcs")]
+    public double[] Wcs { get; set; } = new double[3];
+
+    [JsonPropertyName("regions")]
+    public List<WexbimRegionInfo> Regions { get; set; } = new();
+
+    /// <summary>
+    /// Number of products per product type, most frequent first
+    /// </summary>
+    [JsonPropertyName("productTypes")]
+    public List<WexbimProductTypeCount> ProductTypes { get; set; } = new();
+
+    /// <summary>
+    /// Size of the file in bytes, if known
+    /// </summary>
+    [JsonPropertyName("size")]
+    public long? Size { get; set; }
+}
+
+/// <summary>
+/// Region of a wexBIM file (a cluster of products)
+/// </summary>
+public class WexbimRegionInfo
+{
+    /// <summary>
+    /// Number of products in the region
+    /// </summary>
+    [JsonPropertyName("population")]
+    public int Population { get; set; }
+
+    /// <summary>
+    /// Centre [x, y, z]
+    /// </summary>
+    [JsonPropertyName("centre")]
+    public double[] Centre { get; set; } = new double[3];
+
+    /// <summary>
+    /// Bounding box [x, y, z, sizeX, sizeY, sizeZ]
+    /// </summary>
+    [JsonPropertyName("boundingBox")]
+    public double[] BoundingBox { get; set; } = new double[6];
+}
+
+/// <summary>
+/// Number of products of a product type in a wexBIM file
+/// </summary>
+public class WexbimProductTypeCount
+{
+    /// <summary>
+    /// Product type ID
+    /// </summary>
+    [JsonPropertyName("productType")]
+    public int ProductType { get; set; }
+
+    /// <summary>
+    /// IFC name of the product type (e.g. IFCWALL)
+    /// </summary>
+    [JsonPropertyName("typeName")]
+    public string? IfcTypeName { get; set; }
+
+    [JsonPropertyName("count")]
+    public int Count { get; set; }
+
+    /// <summary>
+    /// Readable name of the product type
+    /// </summary>
+    public string TypeName => ProductTypeNames.GetDisplayName(ProductType);
+}
@@ -32,6 +32,10 @@ public static class ServiceCollectionExtensions
     ///   <item><see cref="ThemeService"/> - Theme management (singleton)</item>
     ///   <item><see cref="IPropertyService"/> / <see cref="PropertyService"/> - Property aggregation (singleton)</item>
     ///   <item><see cref="IfcHierarchyService"/> - Hierarchy generation (singleton)</item>
+    ///   <item><see cref="IfcComparisonService"/> - Product versions for model comparison (singleton)</item>
+    ///   <item><see cref="BcfArchiveService"/> - BCF archive import/export (singleton)</item>
+    ///   <item><see cref="SavedViewService"/> - Saved views per model (singleton)</item>
+    ///   <item><see cref="StylingService"/> - Rule-based colour coding (singleton)</item>
     /// </list>
     /// </para>
     /// </summary>
@@ -80,6 +84,18 @@ public static class ServiceCollectionExtensions
         // Register IfcHierarchyService
         services.TryAddSingleton<IfcHierarchyService>();
 
+        // Register IfcComparisonService
+        services.TryAddSingleton<IfcComparisonService>();
+
+        // Register BcfArchiveService
+        services.TryAddSingleton<BcfArchiveService>();
+
+        // Register SavedViewService
+        services.TryAddSingleton<SavedViewService>();
+
+        // Register StylingService
+        services.TryAddSingleton<StylingService>();
+
         // Register the standalone hosting mode provider
         services.TryAddSingleton<IXbimHostingModeProvider, StandaloneHostingModeProvider>();
 
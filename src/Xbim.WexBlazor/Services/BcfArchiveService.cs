@@ -0,0 +1,712 @@
+using System.Globalization;
+using System.IO.Compression;
+using System.Xml.Linq;
+using Xbim.WexBlazor.Models;
+
+namespace Xbim.WexBlazor.Services;
+
+/// <summary>
+/// Reads and writes BCF 2.1 and 3.0 archives (.bcfzip).
+/// Each topic is stored in its own folder with markup.bcf, viewpoint (.bcfv) and snapshot files.
+/// Coordinates in the archive are in meters, as required by BCF.
+/// </summary>
+public class BcfArchiveService
+{
+    private const string MarkupFileName = "markup.bcf";
+    private const string VersionFileName = "bcf.version";
+    private const string ProjectFileName = "project.bcfp";
+
+    /// <summary>
+    /// Reads a BCF archive from a stream
+    /// </summary>
+    /// <param name="stream">Stream with the .bcfzip content</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>The archive contents</returns>
+    /// <exception cref="InvalidDataException">Thrown when the stream is not a valid BCF archive</exception>
+    public async Task<BcfArchive> ReadAsync(Stream stream, CancellationToken cancellationToken = default)
+    {
+        // ZipArchive reads synchronously, so buffer the (possibly browser) stream first
+        using var buffer = new MemoryStream();
+        await stream.CopyToAsync(buffer, cancellationToken);
+        buffer.Position = 0;
+
+        using var zip = new ZipArchive(buffer, ZipArchiveMode.Read);
+        var archive = new BcfArchive();
+
+        var versionDoc = LoadXml(zip, VersionFileName);
+        var versionId = versionDoc?.Root?.Attribute("VersionId")?.Value;
+        archive.Version = versionId != null && versionId.StartsWith("3") ? BcfVersion.V30 : BcfVersion.V21;
+
+        var project = LoadXml(zip, ProjectFileName)?.Descendants().FirstOrDefault(e => e.Name.LocalName == "Project");
+        if (project != null)
+        {
+            archive.ProjectId = project.Attribute("ProjectId")?.Value;
+            archive.ProjectName = Child(project, "Name")?.Value;
+        }
+
+        var markupEntries = zip.Entries
+            .Where(e => e.FullName.EndsWith("/" + MarkupFileName, StringComparison.OrdinalIgnoreCase));
+
+        foreach (var entry in markupEntries)
+        {
+            cancellationToken.ThrowIfCancellationRequested();
+
+            var folder = entry.FullName[..^MarkupFileName.Length];
+            var markup = LoadXml(entry).Root;
+            if (markup == null)
+                continue;
+
+            archive.Topics.Add(ReadTopic(zip, folder, markup));
+        }
+
+        if (archive.Topics.Count == 0 && versionDoc == null)
+        {
+            throw new InvalidDataException("The file is not a valid BCF archive.");
+        }
+
+        archive.Topics = archive.Topics
+            .OrderBy(t => t.Index ?? int.MaxValue)
+            .ThenBy(t => t.CreationDate)
+            .ToList();
+
+        return archive;
+    }
+
+    private static BcfTopic ReadTopic(ZipArchive zip, string folder, XElement markup)
+    {
+        var topicElement = Child(markup, "Topic")
+            ?? throw new InvalidDataException($"Missing Topic in {folder}{MarkupFileName}");
+
+        var topic = new BcfTopic
+        {
+            Guid = topicElement.Attribute("Guid")?.Value ?? folder.TrimEnd('/'),
+            TopicType = topicElement.Attribute("TopicType")?.Value,
+            TopicStatus = topicElement.Attribute("TopicStatus")?.Value,
+            Title = Child(topicElement, "Title")?.Value ?? string.Empty,
+            Priority = Child(topicElement, "Priority")?.Value,
+            Index = ParseInt(Child(topicElement, "Index")?.Value),
+            CreationDate = ParseDate(Child(topicElement, "CreationDate")?.Value) ?? DateTime.UtcNow,
+            CreationAuthor = Child(topicElement, "CreationAuthor")?.Value,
+            ModifiedDate = ParseDate(Child(topicElement, "ModifiedDate")?.Value),
+            ModifiedAuthor = Child(topicElement, "ModifiedAuthor")?.Value,
+            DueDate = ParseDate(Child(topicElement, "DueDate")?.Value),
+            AssignedTo = Child(topicElement, "AssignedTo")?.Value,
+            Stage = Child(topicElement, "Stage")?.Value,
+            Description = Child(topicElement, "Description")?.Value
+        };
+
+        // BCF 2.1 repeats <Labels> and <ReferenceLink>; BCF 3.0 wraps them in <Labels>/<ReferenceLinks>
+        topic.Labels = Children(topicElement, "Labels")
+            .SelectMany(l => l.HasElements ? Children(l, "Label").Select(x => x.Value) : new[] { l.Value })
+            .Where(l => !string.IsNullOrWhiteSpace(l))
+            .ToList();
+        topic.ReferenceLinks = Children(topicElement, "ReferenceLink")
+            .Concat(Children(topicElement, "ReferenceLinks").SelectMany(r => Children(r, "ReferenceLink")))
+            .Select(r => r.Value)
+            .Where(r => !string.IsNullOrWhiteSpace(r))
+            .ToList();
+
+        // Comments: BCF 2.1 under <Markup>, BCF 3.0 under <Topic><Comments>
+        var comments = Children(markup, "Comment")
+            .Concat(Children(topicElement, "Comments").SelectMany(c => Children(c, "Comment")));
+        foreach (var comment in comments)
+        {
+            topic.Comments.Add(new BcfComment
+            {
+                Guid = comment.Attribute("Guid")?.Value ?? Guid.NewGuid().ToString(),
+                Date = ParseDate(Child(comment, "Date")?.Value) ?? topic.CreationDate,
+                Author = Child(comment, "Author")?.Value,
+                Comment = Child(comment, "Comment")?.Value ?? string.Empty,
+                ViewpointGuid = Child(comment, "Viewpoint")?.Attribute("Guid")?.Value,
+                ModifiedDate = ParseDate(Child(comment, "ModifiedDate")?.Value),
+                ModifiedAuthor = Child(comment, "ModifiedAuthor")?.Value
+            });
+        }
+
+        // Viewpoints: BCF 2.1 <Markup><Viewpoints>, BCF 3.0 <Topic><Viewpoints><ViewPoint>
+        var viewpointRefs = Children(markup, "Viewpoints")
+            .Concat(Children(topicElement, "Viewpoints").SelectMany(v => Children(v, "ViewPoint")))
+            .ToList();
+
+        foreach (var reference in viewpointRefs)
+        {
+            var viewpointFile = Child(reference, "Viewpoint")?.Value;
+            if (string.IsNullOrEmpty(viewpointFile))
+                continue;
+
+            var viewpoint = ReadViewpoint(zip, folder + viewpointFile, folder);
+            if (viewpoint == null)
+                continue;
+
+            viewpoint.Guid = reference.Attribute("Guid")?.Value ?? viewpoint.Guid;
+            viewpoint.Index = ParseInt(Child(reference, "Index")?.Value) ?? viewpoint.Index;
+            viewpoint.Snapshot = ReadSnapshot(zip, folder, Child(reference, "Snapshot")?.Value);
+            topic.Viewpoints.Add(viewpoint);
+        }
+
+        // BCF 2.0 style topics without explicit references use the default file names
+        if (viewpointRefs.Count == 0)
+        {
+            var viewpoint = ReadViewpoint(zip, folder + "viewpoint.bcfv", folder);
+            if (viewpoint != null)
+            {
+                viewpoint.Snapshot = ReadSnapshot(zip, folder, "snapshot.png");
+                topic.Viewpoints.Add(viewpoint);
+            }
+        }
+
+        topic.Viewpoints = topic.Viewpoints.OrderBy(v => v.Index ?? int.MaxValue).ToList();
+        return topic;
+    }
+
+    private static BcfViewpoint? ReadViewpoint(ZipArchive zip, string path, string folder)
+    {
+        var root = LoadXml(zip, path)?.Root;
+        if (root == null)
+            return null;
+
+        var viewpoint = new BcfViewpoint
+        {
+            Guid = root.Attribute("Guid")?.Value ?? Guid.NewGuid().ToString()
+        };
+
+        var components = Child(root, "Components");
+        if (components != null)
+        {
+            viewpoint.Components = ReadComponents(components);
+        }
+
+        var perspective = Child(root, "PerspectiveCamera");
+        if (perspective != null)
+        {
+            var camera = new BcfPerspectiveCamera
+            {
+                FieldOfView = ParseDouble(Child(perspective, "FieldOfView")?.Value) ?? 60
+            };
+            ReadCamera(perspective, camera);
+
+            // Only the aspect ratio of a perspective camera is relevant
+            var aspectRatio = ParseDouble(Child(perspective, "AspectRatio")?.Value);
+            if (aspectRatio > 0)
+            {
+                camera.Width = aspectRatio;
+                camera.Height = 1;
+            }
+            viewpoint.PerspectiveCamera = camera;
+        }
+
+        var orthogonal = Child(root, "OrthogonalCamera");
+        if (orthogonal != null)
+        {
+            var camera = new BcfOrthogonalCamera
+            {
+                ViewToWorldScale = ParseDouble(Child(orthogonal, "ViewToWorldScale")?.Value) ?? 0
+            };
+            ReadCamera(orthogonal, camera);
+            viewpoint.OrthogonalCamera = camera;
+        }
+
+        var lines = Child(root, "Lines");
+        if (lines != null)
+        {
+            viewpoint.Lines = Children(lines, "Line")
+                .Select(l => new BcfLine
+                {
+                    StartPoint = ReadPoint(Child(l, "StartPoint")),
+                    EndPoint = ReadPoint(Child(l, "EndPoint"))
+                })
+                .ToList();
+        }
+
+        var clippingPlanes = Child(root, "ClippingPlanes");
+        if (clippingPlanes != null)
+        {
+            viewpoint.ClippingPlanes = Children(clippingPlanes, "ClippingPlane")
+                .Select(p => new BcfClippingPlane
+                {
+                    Location = ReadPoint(Child(p, "Location")),
+                    Direction = ReadPoint(Child(p, "Direction"))
+                })
+                .ToList();
+        }
+
+        // BCF 2.1 repeats <Bitmap> (format in a nested <Bitmap>); BCF 3.0 wraps them in <Bitmaps> (format in <Format>)
+        var bitmaps = Children(root, "Bitmap")
+            .Concat(Children(root, "Bitmaps").SelectMany(b => Children(b, "Bitmap")))
+            .ToList();
+        if (bitmaps.Count > 0)
+        {
+            viewpoint.Bitmaps = new List<BcfBitmap>();
+            foreach (var bitmap in bitmaps)
+            {
+                var data = ReadBytes(zip, folder + Child(bitmap, "Reference")?.Value);
+                if (data == null)
+                    continue;
+
+                viewpoint.Bitmaps.Add(new BcfBitmap
+                {
+                    BitmapType = (Child(bitmap, "Format") ?? Child(bitmap, "Bitmap"))?.Value.ToLowerInvariant() ?? "png",
+                    BitmapData = Convert.ToBase64String(data),
+                    Location = ReadPoint(Child(bitmap, "Location")),
+                    Normal = ReadPoint(Child(bitmap, "Normal")),
+                    Up = ReadPoint(Child(bitmap, "Up")),
+                    Height = ParseDouble(Child(bitmap, "Height")?.Value) ?? 0
+                });
+            }
+        }
+
+        return viewpoint;
+    }
+
+    private static BcfComponents ReadComponents(XElement components)
+    {
+        var result = new BcfComponents();
+
+        var selection = Child(components, "Selection");
+        if (selection != null)
+        {
+            result.Selection = Children(selection, "Component").Select(ReadComponent).ToList();
+        }
+
+        var visibility = Child(components, "Visibility");
+        if (visibility != null)
+        {
+            result.Visibility = new BcfVisibility
+            {
+                DefaultVisibility = ParseBool(visibility.Attribute("DefaultVisibility")?.Value) ?? true,
+                Exceptions = Child(visibility, "Exceptions") is { } exceptions
+                    ? Children(exceptions, "Component").Select(ReadComponent).ToList()
+                    : new List<BcfComponent>()
+            };
+        }
+
+        // BCF 2.1 keeps view setup hints on <Components>, BCF 3.0 on <Visibility>
+        var hints = Child(components, "ViewSetupHints") ?? (visibility != null ? Child(visibility, "ViewSetupHints") : null);
+        if (hints != null)
+        {
+            result.Visibility ??= new BcfVisibility();
+            result.Visibility.ViewSetupHints = new BcfViewSetupHints
+            {
+                SpacesVisible = ParseBool(hints.Attribute("SpacesVisible")?.Value) ?? false,
+                SpaceBoundariesVisible = ParseBool(hints.Attribute("SpaceBoundariesVisible")?.Value) ?? false,
+                OpeningsVisible = ParseBool(hints.Attribute("OpeningsVisible")?.Value) ?? false
+            };
+        }
+
+        var coloring = Child(components, "Coloring");
+        if (coloring != null)
+        {
+            result.Coloring = Children(coloring, "Color")
+                .Select(c => new BcfColoring
+                {
+                    Color = c.Attribute("Color")?.Value ?? string.Empty,
+                    Components = c.Descendants().Where(e => e.Name.LocalName == "Component").Select(ReadComponent).ToList()
+                })
+                .ToList();
+        }
+
+        return result;
+    }
+
+    private static BcfComponent ReadComponent(XElement component)
+    {
+        return new BcfComponent
+        {
+            IfcGuid = component.Attribute("IfcGuid")?.Value,
+            OriginatingSystem = Child(component, "OriginatingSystem")?.Value,
+            AuthoringToolId = Child(component, "AuthoringToolId")?.Value
+        };
+    }
+
+    private static void ReadCamera(XElement element, BcfCamera camera)
+    {
+        camera.CameraViewPoint = ReadPoint(Child(element, "CameraViewPoint"));
+        camera.CameraDirection = ReadPoint(Child(element, "CameraDirection"));
+        camera.CameraUpVector = ReadPoint(Child(element, "CameraUpVector"));
+    }
+
+    private static double[] ReadPoint(XElement? element)
+    {
+        if (element == null)
+            return Array.Empty<double>();
+
+        return new[]
+        {
+            ParseDouble(Child(element, "X")?.Value) ?? 0,
+            ParseDouble(Child(element, "Y")?.Value) ?? 0,
+            ParseDouble(Child(element, "Z")?.Value) ?? 0
+        };
+    }
+
+    private static BcfSnapshot? ReadSnapshot(ZipArchive zip, string folder, string? fileName)
+    {
+        if (string.IsNullOrEmpty(fileName))
+            return null;
+
+        var data = ReadBytes(zip, folder + fileName);
+        if (data == null)
+            return null;
+
+        return new BcfSnapshot
+        {
+            SnapshotType = fileName.EndsWith(".jpg", StringComparison.OrdinalIgnoreCase)
+                || fileName.EndsWith(".jpeg", StringComparison.OrdinalIgnoreCase) ? "jpg" : "png",
+            SnapshotData = Convert.ToBase64String(data)
+        };
+    }
+
+    /// <summary>
+    /// Writes a BCF archive using the version set on the archive
+    /// </summary>
+    /// <param name="archive">The archive contents</param>
+    /// <returns>The .bcfzip file content</returns>
+    public byte[] Write(BcfArchive archive)
+    {
+        return Write(archive, archive.Version);
+    }
+
+    /// <summary>
+    /// Writes a BCF archive in the specified version
+    /// </summary>
+    /// <param name="archive">The archive contents</param>
+    /// <param name="version">BCF version to write</param>
+    /// <returns>The .bcfzip file content</returns>
+    public byte[] Write(BcfArchive archive, BcfVersion version)
+    {
+        ArgumentNullException.ThrowIfNull(archive);
+
+        using var buffer = new MemoryStream();
+        using (var zip = new ZipArchive(buffer, ZipArchiveMode.Create, leaveOpen: true))
+        {
+            var versionId = version == BcfVersion.V30 ? "3.0" : "2.1";
+            var versionElement = new XElement("Version", new XAttribute("VersionId", versionId));
+            if (version == BcfVersion.V21)
+            {
+                versionElement.Add(new XElement("DetailedVersion", versionId));
+            }
+            WriteXml(zip, VersionFileName, versionElement);
+
+            if (!string.IsNullOrEmpty(archive.ProjectId))
+            {
+                var projectElement = new XElement("Project",
+                    new XAttribute("ProjectId", archive.ProjectId),
+                    OptionalElement("Name", archive.ProjectName));
+                WriteXml(zip, ProjectFileName, version == BcfVersion.V30
+                    ? new XElement("ProjectInfo", projectElement)
+                    : new XElement("ProjectExtension", projectElement, new XElement("ExtensionSchema")));
+            }
+
+            foreach (var topic in archive.Topics)
+            {
+                WriteTopic(zip, topic, version);
+            }
+        }
+
+        return buffer.ToArray();
+    }
+
+    private static void WriteTopic(ZipArchive zip, BcfTopic topic, BcfVersion version)
+    {
+        var folder = topic.Guid + "/";
+        var isV30 = version == BcfVersion.V30;
+
+        var topicElement = new XElement("Topic",
+            new XAttribute("Guid", topic.Guid),
+            new XAttribute("TopicType", topic.TopicType ?? "Issue"),
+            new XAttribute("TopicStatus", topic.TopicStatus ?? "Open"));
+
+        if (isV30)
+        {
+            if (topic.ReferenceLinks.Count > 0)
+                topicElement.Add(new XElement("ReferenceLinks", topic.ReferenceLinks.Select(r => new XElement("ReferenceLink", r))));
+        }
+        else
+        {
+            topicElement.Add(topic.ReferenceLinks.Select(r => new XElement("ReferenceLink", r)));
+        }
+
+        topicElement.Add(
+            new XElement("Title", topic.Title),
+            OptionalElement("Priority", topic.Priority),
+            OptionalElement("Index", topic.Index?.ToString(CultureInfo.InvariantCulture)));
+
+        if (isV30)
+        {
+            if (topic.Labels.Count > 0)
+                topicElement.Add(new XElement("Labels", topic.Labels.Select(l => new XElement("Label", l))));
+        }
+        else
+        {
+            topicElement.Add(topic.Labels.Select(l => new XElement("Labels", l)));
+        }
+
+        topicElement.Add(
+            new XElement("CreationDate", FormatDate(topic.CreationDate)),
+            new XElement("CreationAuthor", topic.CreationAuthor ?? string.Empty),
+            OptionalElement("ModifiedDate", topic.ModifiedDate.HasValue ? FormatDate(topic.ModifiedDate.Value) : null),
+            OptionalElement("ModifiedAuthor", topic.ModifiedAuthor),
+            OptionalElement("DueDate", topic.DueDate.HasValue ? FormatDate(topic.DueDate.Value) : null),
+            OptionalElement("AssignedTo", topic.AssignedTo),
+            OptionalElement("Stage", topic.Stage),
+            OptionalElement("Description", topic.Description));
+
+        var comments = topic.Comments.Select(c => new XElement("Comment",
+            new XAttribute("Guid", c.Guid),
+            new XElement("Date", FormatDate(c.Date)),
+            new XElement("Author", c.Author ?? string.Empty),
+            new XElement("Comment", c.Comment),
+            string.IsNullOrEmpty(c.ViewpointGuid) ? null : new XElement("Viewpoint", new XAttribute("Guid", c.ViewpointGuid)),
+            OptionalElement("ModifiedDate", c.ModifiedDate.HasValue ? FormatDate(c.ModifiedDate.Value) : null),
+            OptionalElement("ModifiedAuthor", c.ModifiedAuthor))).ToList();
+
+        var viewpointRefs = new List<XElement>();
+        for (var i = 0; i < topic.Viewpoints.Count; i++)
+        {
+            var viewpoint = topic.Viewpoints[i];
+
+            // The first viewpoint uses the default names understood by BCF 2.0 readers
+            var viewpointFile = i == 0 ? "viewpoint.bcfv" : $"{viewpoint.Guid}.bcfv";
+            string? snapshotFile = null;
+            if (!string.IsNullOrEmpty(viewpoint.Snapshot?.SnapshotData))
+            {
+                var extension = viewpoint.Snapshot.SnapshotType == "jpg" ? "jpg" : "png";
+                snapshotFile = i == 0 ? $"snapshot.{extension}" : $"{viewpoint.Guid}.{extension}";
+                WriteBytes(zip, folder + snapshotFile, viewpoint.Snapshot.GetBytes());
+            }
+
+            WriteXml(zip, folder + viewpointFile, WriteViewpoint(zip, folder, viewpoint, version));
+
+            viewpointRefs.Add(new XElement(isV30 ? "ViewPoint" : "Viewpoints",
+                new XAttribute("Guid", viewpoint.Guid),
+                new XElement("Viewpoint", viewpointFile),
+                OptionalElement("Snapshot", snapshotFile),
+                OptionalElement("Index", (viewpoint.Index ?? i).ToString(CultureInfo.InvariantCulture))));
+        }
+
+        var markup = new XElement("Markup");
+        if (isV30)
+        {
+            if (comments.Count > 0)
+                topicElement.Add(new XElement("Comments", comments));
+            if (viewpointRefs.Count > 0)
+                topicElement.Add(new XElement("Viewpoints", viewpointRefs));
+            markup.Add(topicElement);
+        }
+        else
+        {
+            markup.Add(topicElement, comments, viewpointRefs);
+        }
+
+        WriteXml(zip, folder + MarkupFileName, markup);
+    }
+
+    private static XElement WriteViewpoint(ZipArchive zip, string folder, BcfViewpoint viewpoint, BcfVersion version)
+    {
+        var isV30 = version == BcfVersion.V30;
+        var root = new XElement("VisualizationInfo", new XAttribute("Guid", viewpoint.Guid));
+
+        if (viewpoint.Components != null)
+        {
+            root.Add(WriteComponents(viewpoint.Components, isV30));
+        }
+
+        if (viewpoint.OrthogonalCamera is { } orthogonal)
+        {
+            root.Add(new XElement("OrthogonalCamera",
+                WriteCamera(orthogonal),
+                new XElement("ViewToWorldScale", FormatDouble(orthogonal.ViewToWorldScale)),
+                WriteAspectRatio(orthogonal)));
+        }
+
+        if (viewpoint.PerspectiveCamera is { } perspective)
+        {
+            root.Add(new XElement("PerspectiveCamera",
+                WriteCamera(perspective),
+                new XElement("FieldOfView", FormatDouble(perspective.FieldOfView)),
+                WriteAspectRatio(perspective)));
+        }
+
+        if (viewpoint.Lines is { Count: > 0 } lines)
+        {
+            root.Add(new XElement("Lines", lines.Select(l => new XElement("Line",
+                WritePoint("StartPoint", l.StartPoint),
+                WritePoint("EndPoint", l.EndPoint)))));
+        }
+
+        if (viewpoint.ClippingPlanes is { Count: > 0 } planes)
+        {
+            root.Add(new XElement("ClippingPlanes", planes.Select(p => new XElement("ClippingPlane",
+                WritePoint("Location", p.Location),
+                WritePoint("Direction", p.Direction)))));
+        }
+
+        if (viewpoint.Bitmaps is { Count: > 0 } bitmaps)
+        {
+            var bitmapElements = new List<XElement>();
+            foreach (var bitmap in bitmaps)
+            {
+                var extension = bitmap.BitmapType == "jpg" ? "jpg" : "png";
+                var reference = $"{Guid.NewGuid()}.{extension}";
+                WriteBytes(zip, folder + reference, Convert.FromBase64String(bitmap.BitmapData));
+
+                bitmapElements.Add(new XElement("Bitmap",
+                    isV30 ? new XElement("Format", extension) : new XElement("Bitmap", extension.ToUpperInvariant()),
+                    new XElement("Reference", reference),
+                    WritePoint("Location", bitmap.Location),
+                    WritePoint("Normal", bitmap.Normal),
+                    WritePoint("Up", bitmap.Up),
+                    new XElement("Height", FormatDouble(bitmap.Height))));
+            }
+
+            if (isV30)
+                root.Add(new XElement("Bitmaps", bitmapElements));
+            else
+                root.Add(bitmapElements);
+        }
+
+        return root;
+    }
+
+    private static XElement WriteComponents(BcfComponents components, bool isV30)
+    {
+        var element = new XElement("Components");
+        var hints = components.Visibility?.ViewSetupHints;
+        XElement? hintsElement = hints == null ? null : new XElement("ViewSetupHints",
+            new XAttribute("SpacesVisible", FormatBool(hints.SpacesVisible)),
+            new XAttribute("SpaceBoundariesVisible", FormatBool(hints.SpaceBoundariesVisible)),
+            new XAttribute("OpeningsVisible", FormatBool(hints.OpeningsVisible)));
+
+        if (!isV30 && hintsElement != null)
+        {
+            element.Add(hintsElement);
+        }
+
+        if (components.Selection is { Count: > 0 } selection)
+        {
+            element.Add(new XElement("Selection", selection.Select(WriteComponent)));
+        }
+
+        var visibility = components.Visibility ?? new BcfVisibility();
+        element.Add(new XElement("Visibility",
+            new XAttribute("DefaultVisibility", FormatBool(visibility.DefaultVisibility)),
+            isV30 ? hintsElement : null,
+            visibility.Exceptions is { Count: > 0 } exceptions
+                ? new XElement("Exceptions", exceptions.Select(WriteComponent))
+                : null));
+
+        if (components.Coloring is { Count: > 0 } coloring)
+        {
+            element.Add(new XElement("Coloring", coloring.Select(c => new XElement("Color",
+                new XAttribute("Color", c.Color),
+                isV30
+                    ? new XElement("Components", c.Components.Select(WriteComponent))
+                    : (object)c.Components.Select(WriteComponent)))));
+        }
+
+        return element;
+    }
+
+    private static XElement WriteComponent(BcfComponent component)
+    {
+        return new XElement("Component",
+            string.IsNullOrEmpty(component.IfcGuid) ? null : new XAttribute("IfcGuid", component.IfcGuid),
+            OptionalElement("OriginatingSystem", component.OriginatingSystem),
+            OptionalElement("AuthoringToolId", component.AuthoringToolId));
+    }
+
+    private static IEnumerable<XElement> WriteCamera(BcfCamera camera)
+    {
+        yield return WritePoint("CameraViewPoint", camera.CameraViewPoint);
+        yield return WritePoint("CameraDirection", camera.CameraDirection);
+        yield return WritePoint("CameraUpVector", camera.CameraUpVector);
+    }
+
+    private static XElement? WriteAspectRatio(BcfCamera camera)
+    {
+        return camera.Width > 0 && camera.Height > 0
+            ? new XElement("AspectRatio", FormatDouble(camera.Width.Value / camera.Height.Value))
+            : null;
+    }
+
+    private static XElement WritePoint(string name, double[] point)
+    {
+        return new XElement(name,
+            new XElement("X", FormatDouble(point.Length > 0 ? point[0] : 0)),
+            new XElement("Y", FormatDouble(point.Length > 1 ? point[1] : 0)),
+            new XElement("Z", FormatDouble(point.Length > 2 ? point[2] : 0)));
+    }
+
+    private static XDocument? LoadXml(ZipArchive zip, string path)
+    {
+        var entry = FindEntry(zip, path);
+        return entry == null ? null : LoadXml(entry);
+    }
+
+    private static XDocument LoadXml(ZipArchiveEntry entry)
+    {
+        using var stream = entry.Open();
+        return XDocument.Load(stream);
+    }
+
+    private static byte[]? ReadBytes(ZipArchive zip, string path)
+    {
+        var entry = FindEntry(zip, path);
+        if (entry == null)
+            return null;
+
+        using var stream = entry.Open();
+        using var buffer = new MemoryStream();
+        stream.CopyTo(buffer);
+        return buffer.ToArray();
+    }
+
+    private static ZipArchiveEntry? FindEntry(ZipArchive zip, string path)
+    {
+        return zip.GetEntry(path)
+            ?? zip.Entries.FirstOrDefault(e => string.Equals(e.FullName, path, StringComparison.OrdinalIgnoreCase));
+    }
+
+    private static void WriteXml(ZipArchive zip, string path, XElement root)
+    {
+        var entry = zip.CreateEntry(path);
+        using var stream = entry.Open();
+        new XDocument(new XDeclaration("1.0", "utf-8", null), root).Save(stream);
+    }
+
+    private static void WriteBytes(ZipArchive zip, string path, byte[] data)
+    {
+        var entry = zip.CreateEntry(path);
+        using var stream = entry.Open();
+        stream.Write(data, 0, data.Length);
+    }
+
+    private static XElement? Child(XElement parent, string name) =>
+        parent.Elements().FirstOrDefault(e => e.Name.LocalName == name);
+
+    private static IEnumerable<XElement> Children(XElement parent, string name) =>
+        parent.Elements().Where(e => e.Name.LocalName == name);
+
+    private static XElement? OptionalElement(string name, string? value) =>
+        string.IsNullOrEmpty(value) ? null : new XElement(name, value);
+
+    private static int? ParseInt(string? value) =>
+        int.TryParse(value, NumberStyles.Integer, CultureInfo.InvariantCulture, out var result) ? result : null;
+
+    private static double? ParseDouble(string? value) =>
+        double.TryParse(value, NumberStyles.Float, CultureInfo.InvariantCulture, out var result) ? result : null;
+
+    private static bool? ParseBool(string? value) =>
+        value == null ? null : value == "1" || value.Equals("true", StringComparison.OrdinalIgnoreCase);
+
+    private static DateTime? ParseDate(string? value) =>
+        DateTime.TryParse(value, CultureInfo.InvariantCulture, DateTimeStyles.AdjustToUniversal | DateTimeStyles.AssumeUniversal, out var result)
+            ? result
+            : null;
+
+    private static string FormatDouble(double value) => value.ToString("R", CultureInfo.InvariantCulture);
+
+    private static string FormatBool(bool value) => value ? "true" : "false";
+
+    private static string FormatDate(DateTime value) =>
+        value.ToUniversalTime().ToString("yyyy-MM-ddTHH:mm:ssZ", CultureInfo.InvariantCulture);
+}
@@ -0,0 +1,27 @@
+using Xbim.WexBlazor.Models;
+
+namespace Xbim.WexBlazor.Services;
+
+/// <summary>
+/// Maps between the viewer's local product identity (product ID + model ID)
+/// and the IFC GlobalId used by BCF viewpoints.
+/// </summary>
+public interface IBcfIdMapper
+{
+    /// <summary>
+    /// Gets the IFC GlobalId of a product in the viewer
+    /// </summary>
+    /// <param name="productId">Product ID (entity label) in the viewer</param>
+    /// <param name="modelId">Model ID in the viewer</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>IFC GlobalId or null if the product cannot be mapped</returns>
+    Task<string?> GetGuidAsync(int productId, int modelId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Resolves an IFC GlobalId to a product in the viewer
+    /// </summary>
+    /// <param name="ifcGuid">IFC GlobalId</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Product identity or null if the GUID is not present in any loaded model</returns>
+    Task<ProductIdentity?> GetProductAsync(string ifcGuid, CancellationToken cancellationToken = default);
+}
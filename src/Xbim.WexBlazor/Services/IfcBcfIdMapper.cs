@@ -0,0 +1,65 @@
+using System.Runtime.CompilerServices;
+using Xbim.Common;
+using Xbim.Ifc4.Interfaces;
+using Xbim.WexBlazor.Models;
+
+namespace Xbim.WexBlazor.Services;
+
+/// <summary>
+/// BCF ID mapper that resolves IFC GlobalIds from the IFC models of loaded models.
+/// Models loaded as plain wexBIM (without an IFC model) cannot be mapped.
+/// </summary>
+public class IfcBcfIdMapper : IBcfIdMapper
+{
+    private readonly Func<IEnumerable<LoadedModel>> _modelsProvider;
+    private readonly ConditionalWeakTable<IModel, Dictionary<string, int>> _guidIndex = new();
+
+    /// <summary>
+    /// Creates a new IFC BCF ID mapper
+    /// </summary>
+    /// <param name="modelsProvider">Provides the models currently loaded in the viewer</param>
+    public IfcBcfIdMapper(Func<IEnumerable<LoadedModel>> modelsProvider)
+    {
+        _modelsProvider = modelsProvider ?? throw new ArgumentNullException(nameof(modelsProvider));
+    }
+
+    public Task<string?> GetGuidAsync(int productId, int modelId, CancellationToken cancellationToken = default)
+    {
+        var model = _modelsProvider().FirstOrDefault(m => m.Id == modelId)?.IfcModel;
+        if (model == null)
+            return Task.FromResult<string?>(null);
+
+        // The product ID in wexbim is the IFC entity label
+        var guid = model.Instances[productId] is IIfcRoot root ? root.GlobalId.ToString() : null;
+        return Task.FromResult(guid);
+    }
+
+    public Task<ProductIdentity?> GetProductAsync(string ifcGuid, CancellationToken cancellationToken = default)
+    {
+        foreach (var loaded in _modelsProvider())
+        {
+            if (loaded.IfcModel == null)
+                continue;
+
+            if (GetGuidIndex(loaded.IfcModel).TryGetValue(ifcGuid, out var label))
+            {
+                return Task.FromResult<ProductIdentity?>(new ProductIdentity { Id = label, Model = loaded.Id });
+            }
+        }
+
+        return Task.FromResult<ProductIdentity?>(null);
+    }
+
+    private Dictionary<string, int> GetGuidIndex(IModel model)
+    {
+        return _guidIndex.GetValue(model, m =>
+        {
+            var index = new Dictionary<string, int>();
+            foreach (var product in m.Instances.OfType<IIfcProduct>())
+            {
+                index[product.GlobalId.ToString()] = product.EntityLabel;
+            }
+            return index;
+        });
+    }
+}
@@ -0,0 +1,89 @@
+using System.Security.Cryptography;
+using System.Text;
+using Xbim.Common;
+using Xbim.Ifc4.Interfaces;
+using Xbim.WexBlazor.Models;
+
+namespace Xbim.WexBlazor.Services;
+
+/// <summary>
+/// Reads the products of IFC models to compare two versions of a model in the viewer.
+/// Products are identified by their GlobalId and their properties are summarised in a hash.
+/// </summary>
+public class IfcComparisonService
+{
+    /// <summary>
+    /// Gets the GlobalId and property hash of each product of a model
+    /// </summary>
+    /// <param name="model">The IFC model the wexBIM file was created from</param>
+    /// <param name="includePropertyHash">Whether to hash the properties; without them only geometry changes are found</param>
+    public List<ProductVersion> GetProductVersions(IModel model, bool includePropertyHash = true)
+    {
+        if (model == null) return new List<ProductVersion>();
+
+        return model.Instances.OfType<IIfcProduct>()
+            .Select(product => new ProductVersion
+            {
+                // The product ID in wexbim is the IFC entity label
+                Id = product.EntityLabel,
+                Guid = product.GlobalId.ToString(),
+                Hash = includePropertyHash ? GetPropertyHash(product) : null
+            })
+            .ToList();
+    }
+
+    /// <summary>
+    /// Hashes the name, type, property sets and quantities of a product. The order of
+    /// property sets and properties doesn't change the hash.
+    /// </summary>
+    private static string GetPropertyHash(IIfcProduct product)
+    {
+        var values = new List<string>
+        {
+            $"@Type={product.ExpressType.Name}",
+            $"@Name={product.Name}",
+            $"@ObjectType={product.ObjectType}",
+            $"@TypeObject={product.IsTypedBy?.FirstOrDefault()?.RelatingType?.Name}"
+        };
+
+        foreach (var rel in product.IsDefinedBy.OfType<IIfcRelDefinesByProperties>())
+        {
+            switch (rel.RelatingPropertyDefinition)
+            {
+                case IIfcPropertySet pset:
+                    foreach (var property in pset.HasProperties)
+                        values.Add($"{pset.Name}.{property.Name}={GetPropertyValue(property)}");
+                    break;
+
+                case IIfcElementQuantity qset:
+                    foreach (var quantity in qset.Quantities)
+                        values.Add($"{qset.Name}.{quantity.Name}={GetQuantityValue(quantity)}");
+                    break;
+            }
+        }
+
+        values.Sort(StringComparer.Ordinal);
+        var bytes = SHA256.HashData(Encoding.UTF8.GetBytes(string.Join("\n", values)));
+        return Convert.ToHexString(bytes);
+    }
+
+    private static string? GetPropertyValue(IIfcProperty property) => property switch
+    {
+        IIfcPropertySingleValue singleValue => singleValue.NominalValue?.ToString(),
+        IIfcPropertyEnumeratedValue enumValue => string.Join(", ", enumValue.EnumerationValues.Select(v => v.ToString())),
+        IIfcPropertyBoundedValue boundedValue => $"{boundedValue.LowerBoundValue} - {boundedValue.UpperBoundValue}",
+        IIfcPropertyListValue listValue => string.Join(", ", listValue.ListValues.Select(v => v.ToString())),
+        _ => null
+    };
+
+    private static string? GetQuantityValue(IIfcPhysicalQuantity quantity) => quantity switch
+    {
+        IIfcQuantityLength length => length.LengthValue.ToString(),
+        IIfcQuantityArea area => area.AreaValue.ToString(),
+        IIfcQuantityVolume volume => volume.VolumeValue.ToString(),
+        IIfcQuantityCount count => count.CountValue.ToString(),
+        IIfcQuantityWeight weight => weight.WeightValue.ToString(),
+        IIfcQuantityTime time => time.TimeValue.ToString(),
+        _ => null
+    };
+}
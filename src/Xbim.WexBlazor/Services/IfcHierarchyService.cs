@@ -16,6 +16,26 @@ public class IfcHierarchyService
         return BuildSpatialNode(project, modelId);
     }
 
+    /// <summary>
+    /// Gets the building storeys of a model ordered by elevation. Elevations are in
+    /// model coordinates (model units) so they can be used for storey plans in the viewer.
+    /// </summary>
+    public List<StoreyInfo> GetStoreys(IModel model, int modelId)
+    {
+        if (model == null) return new List<StoreyInfo>();
+
+        return model.Instances.OfType<IIfcBuildingStorey>()
+            .Select(storey => new StoreyInfo
+            {
+                Id = storey.EntityLabel,
+                Name = GetName(storey),
+                ModelId = modelId,
+                Elevation = GetElevation(storey)
+            })
+            .OrderBy(s => s.Elevation)
+            .ToList();
+    }
+
     private HierarchyNode BuildSpatialNode(IIfcObjectDefinition obj, int modelId)
     {
         var node = new HierarchyNode
@@ -24,7 +44,8 @@ public class IfcHierarchyService
             Name = GetName(obj),
             ModelId = modelId,
             Icon = GetIcon(obj),
-            ProductType = GetProductTypeId(obj)
+            ProductType = GetProductTypeId(obj),
+            Elevation = obj is IIfcBuildingStorey storey ? GetElevation(storey) : null
         };
 
         var children = new List<HierarchyNode>();
@@ -94,6 +115,25 @@ public class IfcHierarchyService
         return $"#{obj.EntityLabel}";
     }
 
+    // Height of the storey placement as used by the wexBIM geometry. Placements are expected
+    // to be horizontal, so only the Z offsets are summed. The storey elevation attribute is
+    // relative to the building and only used when the storey has no local placement.
+    private static double GetElevation(IIfcBuildingStorey storey)
+    {
+        var placement = storey.ObjectPlacement as IIfcLocalPlacement;
+        if (placement == null)
+            return storey.Elevation.HasValue ? (double)storey.Elevation.Value : 0;
+
+        double z = 0;
+        while (placement != null)
+        {
+            if (placement.RelativePlacement is IIfcAxis2Placement3D axis && axis.Location.Coordinates.Count > 2)
+                z += axis.Location.Coordinates[2];
+            placement = placement.PlacementRelTo as IIfcLocalPlacement;
+        }
+        return z;
+    }
+
     private string GetIcon(IIfcObjectDefinition obj)
     {
         return obj switch
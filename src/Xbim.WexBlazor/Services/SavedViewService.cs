@@ -0,0 +1,188 @@
+using System.Text.Json;
+using Xbim.WexBlazor.Models;
+
+namespace Xbim.WexBlazor.Services;
+
+/// <summary>
+/// Stores named saved views per model and exchanges them as JSON.
+/// Views are kept in the order they are shown to the user.
+/// </summary>
+public class SavedViewService
+{
+    private static readonly JsonSerializerOptions JsonOptions = new() { WriteIndented = true };
+
+    private readonly Dictionary<string, List<SavedView>> _views = new(StringComparer.OrdinalIgnoreCase);
+    private readonly object _lock = new();
+
+    /// <summary>
+    /// Event fired when the views of a model change. The argument is the model key.
+    /// </summary>
+    public event Action<string>? ViewsChanged;
+
+    /// <summary>
+    /// Gets the saved views of a model in display order
+    /// </summary>
+    /// <param name="modelKey">Model key (see <see cref="LoadedModel.Key"/>)</param>
+    public IReadOnlyList<SavedView> GetViews(string modelKey)
+    {
+        lock (_lock)
+        {
+            return _views.TryGetValue(modelKey, out var views) ? views.ToList() : new List<SavedView>();
+        }
+    }
+
+    /// <summary>
+    /// Adds a view to the end of the model's list
+    /// </summary>
+    public void Add(string modelKey, SavedView view)
+    {
+        ArgumentNullException.ThrowIfNull(view);
+
+        lock (_lock)
+        {
+            GetOrCreate(modelKey).Add(view);
+        }
+        ViewsChanged?.Invoke(modelKey);
+    }
+
+    /// <summary>
+    /// Removes a view
+    /// </summary>
+    /// <returns>True if the view was found</returns>
+    public bool Remove(string modelKey, string viewId)
+    {
+        lock (_lock)
+        {
+            if (!_views.TryGetValue(modelKey, out var views) || views.RemoveAll(v => v.Id == viewId) == 0)
+                return false;
+        }
+        ViewsChanged?.Invoke(modelKey);
+        return true;
+    }
+
+    /// <summary>
+    /// Renames a view
+    /// </summary>
+    /// <returns>True if the view was found</returns>
+    public bool Rename(string modelKey, string viewId, string name)
+    {
+        lock (_lock)
+        {
+            var view = Find(modelKey, viewId);
+            if (view == null)
+                return false;
+
+            view.Name = name;
+        }
+        ViewsChanged?.Invoke(modelKey);
+        return true;
+    }
+
+    /// <summary>
+    /// Moves a view to a new position in the model's list
+    /// </summary>
+    /// <param name="modelKey">Model key</param>
+    /// <param name="viewId">ID of the view to move</param>
+    /// <param name="newIndex">New position, clamped to the list bounds</param>
+    /// <returns>True if the view was found</returns>
+    public bool Move(string modelKey, string viewId, int newIndex)
+    {
+        lock (_lock)
+        {
+            if (!_views.TryGetValue(modelKey, out var views))
+                return false;
+
+            var index = views.FindIndex(v => v.Id == viewId);
+            if (index < 0)
+                return false;
+
+            var view = views[index];
+            views.RemoveAt(index);
+            views.Insert(Math.Clamp(newIndex, 0, views.Count), view);
+        }
+        ViewsChanged?.Invoke(modelKey);
+        return true;
+    }
+
+    /// <summary>
+    /// Removes all views of a model
+    /// </summary>
+    public void Clear(string modelKey)
+    {
+        lock (_lock)
+        {
+            _views.Remove(modelKey);
+        }
+        ViewsChanged?.Invoke(modelKey);
+    }
+
+    /// <summary>
+    /// Exports the views of a model as JSON
+    /// </summary>
+    public string Export(string modelKey)
+    {
+        var collection = new SavedViewCollection
+        {
+            ModelKey = modelKey,
+            Views = GetViews(modelKey).ToList()
+        };
+        return JsonSerializer.Serialize(collection, JsonOptions);
+    }
+
+    /// <summary>
+    /// Imports views from JSON created by <see cref="Export"/>
+    /// </summary>
+    /// <param name="modelKey">Model key the views are added to</param>
+    /// <param name="json">Exported views</param>
+    /// <param name="replace">True to replace the existing views, false to append</param>
+    /// <returns>Number of imported views</returns>
+    /// <exception cref="InvalidDataException">Thrown when the JSON is not a saved view export</exception>
+    public int Import(string modelKey, string json, bool replace = false)
+    {
+        SavedViewCollection? collection;
+        try
+        {
+            collection = JsonSerializer.Deserialize<SavedViewCollection>(json, JsonOptions);
+        }
+        catch (JsonException ex)
+        {
+            throw new InvalidDataException("The file is not a valid saved views export.", ex);
+        }
+
+        if (collection?.Views == null)
+            throw new InvalidDataException("The file is not a valid saved views export.");
+
+        lock (_lock)
+        {
+            var views = GetOrCreate(modelKey);
+            if (replace)
+                views.Clear();
+
+            foreach (var view in collection.Views)
+            {
+                // Importing the same file twice must not produce duplicate IDs
+                if (string.IsNullOrEmpty(view.Id) || views.Any(v => v.Id == view.Id))
+                    view.Id = Guid.NewGuid().ToString("N");
+
+                views.Add(view);
+            }
+        }
+        ViewsChanged?.Invoke(modelKey);
+        return collection.Views.Count;
+    }
+
+    private List<SavedView> GetOrCreate(string modelKey)
+    {
+        if (!_views.TryGetValue(modelKey, out var views))
+        {
+            views = new List<SavedView>();
+            _views[modelKey] = views;
+        }
+        return views;
+    }
+
+    private SavedView? Find(string modelKey, string viewId)
+    {
+        return _views.TryGetValue(modelKey, out var views) ? views.FirstOrDefault(v => v.Id == viewId) : null;
+    }
+}
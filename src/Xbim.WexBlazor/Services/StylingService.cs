@@ -0,0 +1,238 @@
+using System.Globalization;
+using Xbim.WexBlazor.Components;
+using Xbim.WexBlazor.Interop;
+using Xbim.WexBlazor.Models;
+using Xbim.WexBlazor.Services.Abstractions;
+
+namespace Xbim.WexBlazor.Services;
+
+/// <summary>
+/// Colours products by rules (by IFC type, property value or numeric property range)
+/// and returns a legend of the applied colours. Property values come from the registered
+/// <see cref="IPropertySource"/>s of the <see cref="IPropertyService"/>.
+/// </summary>
+public class StylingService
+{
+    /// <summary>
+    /// Number of styles reserved for style layers, see <see cref="ViewerConstants.StyleRange"/>
+    /// </summary>
+    public const int MaxStyles = ViewerConstants.StyleRange.ComparisonStart - ViewerConstants.StyleRange.StyleLayersStart;
+
+    private readonly IPropertyService _propertyService;
+
+    public StylingService(IPropertyService propertyService)
+    {
+        _propertyService = propertyService;
+    }
+
+    /// <summary>
+    /// Colours the products of all loaded models by the rules. Existing styles are replaced.
+    /// </summary>
+    /// <param name="viewer">The viewer</param>
+    /// <param name="rules">Rules in order of precedence</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <returns>Legend with one entry per colour</returns>
+    /// <exception cref="InvalidOperationException">Thrown when the rules need more than <see cref="MaxStyles"/> colours</exception>
+    public async Task<List<StyleLegendEntry>> ApplyAsync(
+        XbimViewer viewer,
+        IEnumerable<StyleRule> rules,
+        CancellationToken cancellationToken = default)
+    {
+        var ruleList = rules.ToList();
+
+        var products = new List<(int ElementId, int ModelId)>();
+        if (ruleList.Any(r => r.Type != StyleRuleType.ProductType))
+        {
+            var types = await viewer.GetProductTypesAsync();
+            products.AddRange(types.SelectMany(t => t.ProductIds.Select(id => (id, t.ModelId))).Distinct());
+        }
+
+        var layers = await ResolveAsync(ruleList, products, cancellationToken);
+        var counts = await viewer.ApplyStyleLayersAsync(layers);
+
+        return layers.Select((layer, index) => new StyleLegendEntry
+        {
+            Label = layer.Label,
+            Color = ToHex(layer.Color),
+            RuleIndex = layer.RuleIndex,
+            StyleIndex = ViewerConstants.StyleRange.ComparisonStart - 1 - index,
+            Count = index < counts.Length ? counts[index] : 0
+        }).ToList();
+    }
+
+    /// <summary>
+    /// Removes the colours of all loaded models
+    /// </summary>
+    public async Task ClearAsync(XbimViewer viewer)
+    {
+        await viewer.ResetStylesAsync();
+    }
+
+    /// <summary>
+    /// Resolves rules to style layers. Property rules are matched against the properties of the given products;
+    /// product type rules are resolved by the viewer.
+    /// </summary>
+    /// <param name="rules">Rules in order of precedence</param>
+    /// <param name="products">Products the property rules are evaluated for</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    /// <exception cref="InvalidOperationException">Thrown when the rules need more than <see cref="MaxStyles"/> colours</exception>
+    public async Task<List<StyleLayer>> ResolveAsync(
+        IReadOnlyList<StyleRule> rules,
+        IReadOnlyCollection<(int ElementId, int ModelId)> products,
+        CancellationToken cancellationToken = default)
+    {
+        var properties = new Dictionary<(int ElementId, int ModelId), ElementProperties>();
+        if (products.Count > 0 && rules.Any(r => r.Type != StyleRuleType.ProductType))
+        {
+            // The batch result is keyed by element ID only, so query each model separately
+            foreach (var model in products.GroupBy(p => p.ModelId))
+            {
+                var batch = await _propertyService.GetPropertiesBatchAsync(model, cancellationToken);
+                foreach (var (elementId, props) in batch)
+                    properties[(elementId, model.Key)] = props;
+            }
+        }
+
+        var layers = new List<StyleLayer>();
+        for (var i = 0; i < rules.Count; i++)
+        {
+            var rule = rules[i];
+            switch (rule.Type)
+            {
+                case StyleRuleType.ProductType:
+                    if (string.IsNullOrWhiteSpace(rule.ProductType))
+                        throw new ArgumentException($"Style rule {i} has no product type.");
+
+                    layers.Add(new StyleLayer
+                    {
+                        Label = rule.Label ?? rule.ProductType,
+                        RuleIndex = i,
+                        Color = XbimViewerInterop.HexToRgba(rule.Color),
+                        ProductTypes = new List<string> { rule.ProductType }
+                    });
+                    break;
+
+                case StyleRuleType.PropertyValue:
+                    var name = GetPropertyName(rule, i);
+                    layers.Add(new StyleLayer
+                    {
+                        Label = rule.Label ?? (rule.Value == null ? name : $"{name} = {rule.Value}"),
+                        RuleIndex = i,
+                        Color = XbimViewerInterop.HexToRgba(rule.Color),
+                        Products = properties
+                            .Where(p => FindValues(p.Value, rule).Any(v => rule.Value == null || ValuesEqual(v, rule.Value)))
+                            .Select(p => new StyledProduct { Id = p.Key.ElementId, ModelId = p.Key.ModelId })
+                            .ToList()
+                    });
+                    break;
+
+                case StyleRuleType.PropertyRange:
+                    layers.AddRange(ResolveRange(rule, i, properties));
+                    break;
+            }
+        }
+
+        if (layers.Count > MaxStyles)
+            throw new InvalidOperationException($"The style rules need {layers.Count} colours, but the viewer reserves {MaxStyles} for style layers.");
+
+        return layers;
+    }
+
+    private static IEnumerable<StyleLayer> ResolveRange(
+        StyleRule rule,
+        int ruleIndex,
+        Dictionary<(int ElementId, int ModelId), ElementProperties> properties)
+    {
+        var name = GetPropertyName(rule, ruleIndex);
+        var values = properties
+            .Select(p => (p.Key, Value: FindValues(p.Value, rule).Select(ParseNumber).FirstOrDefault(v => v.HasValue)))
+            .Where(p => p.Value.HasValue)
+            .Select(p => (p.Key, Value: p.Value!.Value))
+            .ToList();
+
+        var min = rule.Min ?? (values.Count > 0 ? values.Min(v => v.Value) : 0);
+        var max = rule.Max ?? (values.Count > 0 ? values.Max(v => v.Value) : 0);
+        var inRange = values.Where(v => v.Value >= min && v.Value <= max).ToList();
+        var label = rule.Label ?? name;
+
+        if (string.IsNullOrEmpty(rule.MaxColor) || rule.GradientSteps < 2 || max <= min)
+        {
+            yield return new StyleLayer
+            {
+                Label = $"{label} {FormatNumber(min)} – {FormatNumber(max)}",
+                RuleIndex = ruleIndex,
+                Color = XbimViewerInterop.HexToRgba(rule.Color),
+                Products = inRange.Select(v => new StyledProduct { Id = v.Key.ElementId, ModelId = v.Key.ModelId }).ToList()
+            };
+            yield break;
+        }
+
+        var from = XbimViewerInterop.HexToRgba(rule.Color);
+        var to = XbimViewerInterop.HexToRgba(rule.MaxColor);
+        var steps = rule.GradientSteps;
+        var size = (max - min) / steps;
+
+        for (var step = 0; step < steps; step++)
+        {
+            var low = min + step * size;
+            var high = step == steps - 1 ? max : low + size;
+            var t = (double)step / (steps - 1);
+
+            yield return new StyleLayer
+            {
+                Label = $"{label} {FormatNumber(low)} – {FormatNumber(high)}",
+                RuleIndex = ruleIndex,
+                Color = from.Select((c, i) => (int)Math.Round(c + (to[i] - c) * t)).ToArray(),
+                // The upper bound belongs to the next band, except for the last one
+                Products = inRange
+                    .Where(v => Math.Min((int)((v.Value - min) / size), steps - 1) == step)
+                    .Select(v => new StyledProduct { Id = v.Key.ElementId, ModelId = v.Key.ModelId })
+                    .ToList()
+            };
+        }
+    }
+
+    private static string GetPropertyName(StyleRule rule, int ruleIndex)
+    {
+        if (string.IsNullOrWhiteSpace(rule.PropertyName))
+            throw new ArgumentException($"Style rule {ruleIndex} has no property name.");
+
+        return rule.PropertyName;
+    }
+
+    private static IEnumerable<string> FindValues(ElementProperties properties, StyleRule rule)
+    {
+        return properties.Groups
+            .Where(g => rule.PropertySet == null || string.Equals(g.Name, rule.PropertySet, StringComparison.OrdinalIgnoreCase))
+            .SelectMany(g => g.Properties)
+            .Where(p => p.Value != null && string.Equals(p.Name, rule.PropertyName, StringComparison.OrdinalIgnoreCase))
+            .Select(p => p.Value!);
+    }
+
+    private static bool ValuesEqual(string value, string expected)
+    {
+        var number = ParseNumber(value);
+        var expectedNumber = ParseNumber(expected);
+        if (number.HasValue && expectedNumber.HasValue)
+            return number.Value.Equals(expectedNumber.Value);
+
+        return string.Equals(value.Trim(), expected.Trim(), StringComparison.OrdinalIgnoreCase);
+    }
+
+    private static double? ParseNumber(string value)
+    {
+        return double.TryParse(value, NumberStyles.Float, CultureInfo.InvariantCulture, out var number) ? number : null;
+    }
+
+    private static string FormatNumber(double value)
+    {
+        return value.ToString("0.##", CultureInfo.InvariantCulture);
+    }
+
+    private static string ToHex(int[] rgba)
+    {
+        return rgba.Length > 3 && rgba[3] < 255
+            ? $"#{rgba[0]:X2}{rgba[1]:X2}{rgba[2]:X2}{rgba[3]:X2}"
+            : $"#{rgba[0]:X2}{rgba[1]:X2}{rgba[2]:X2}";
+    }
+}
@@ -28,6 +28,26 @@ const CameraType = {
     ORTHOGONAL: 1
 } as const;
 
+const RenderingMode = {
+    NORMAL: 0,
+    GRAYSCALE: 1,
+    XRAY: 2,
+    XRAY_ULTRA: 4
+} as const;
+
+// Model loading messages of the viewer
+const MessageType = {
+    PROGRESS: 0,
+    COMPLETED: 1,
+    FAILED: 2
+} as const;
+
+const LoadingPhase = {
+    DOWNLOADING: 0,
+    READING: 1,
+    LOADING: 2
+} as const;
+
 const XBIM_SCRIPT_PATH =
     '_content/Xbim.WexBlazor/lib/xbim-viewer/index.js' as const;
 
@@ -198,81 +218,429 @@ function setupResizeObserver(canvasId: string, viewerId: string): void {
     console.log(`ResizeObserver set up for viewer ${viewerId} (canvas ${canvasId})`);
 }
 
-// Load a model from a URL with optional tag for identification
-export async function loadModel(viewerId: string, modelUrl: string, tag?: any): Promise<number | null> {
+interface ModelLoadOptions {
+    timeout?: number | null;
+    maxConcurrentLoads?: number | null;
+    headers?: Record<string, string> | null;
+    useAccessToken?: boolean;
+    size?: number | null;
+}
+
+// Outcome of a queued load. Reason is 'download', 'unauthorized', 'parse', 'timeout', 'cancelled' or 'error' when modelId is null.
+interface ModelLoadResult {
+    modelId: number | null;
+    reason?: string;
+    message?: string;
+    status?: number;
+}
+
+interface PendingModelLoad {
+    loadId: string;
+    viewerId: string;
+    modelUrl: string; // URL, or the name of a model streamed from .NET
+    stream?: any; // DotNetStreamReference
+    tag: any;
+    options: ModelLoadOptions;
+    dotNetHelper: any;
+    resolve: (result: ModelLoadResult) => void;
+    settled: boolean;
+    timer?: number;
+    release?: () => void;
+    abort?: AbortController;
+    worker?: Worker;
+    lastProgress?: string;
+}
+
+interface ModelLoadQueue {
+    maxConcurrent: number;
+    running: number;
+    waiting: PendingModelLoad[];
+    loads: Map<string, PendingModelLoad>;
+}
+
+const DEFAULT_MAX_CONCURRENT_LOADS = 4;
+const LOADING_PHASES = ['downloading', 'reading', 'loading'];
+const modelLoadQueues = new Map<string, ModelLoadQueue>(); // viewerId -> load queue
+let modelLoadCounter = 0;
+
+function getModelLoadQueue(viewerId: string): ModelLoadQueue {
+    let queue = modelLoadQueues.get(viewerId);
+    if (!queue) {
+        queue = { maxConcurrent: DEFAULT_MAX_CONCURRENT_LOADS, running: 0, waiting: [], loads: new Map() };
+        modelLoadQueues.set(viewerId, queue);
+    }
+    return queue;
+}
+
+function settleModelLoad(load: PendingModelLoad, result: ModelLoadResult): void {
+    if (load.settled) {
+        return;
+    }
+
+    load.settled = true;
+    clearTimeout(load.timer);
+    modelLoadQueues.get(load.viewerId)?.loads.delete(load.loadId);
+    if (result.modelId === null) {
+        console.error(`Model ${load.modelUrl} not loaded (${result.reason}): ${result.message}`);
+    }
+    load.resolve(result);
+}
+
+// Stop the download or the worker of a settled load and free its slot for the next load
+function stopModelLoad(load: PendingModelLoad): void {
+    load.abort?.abort();
+    load.worker?.terminate();
+    load.release?.();
+}
+
+// Report progress to .NET once per whole percent. Total progress assumes the three phases take equally long.
+function reportModelLoadProgress(load: PendingModelLoad, phase: string, percent: number, message: string): void {
+    if (!load.dotNetHelper || load.settled) {
+        return;
+    }
+
+    const key = `${phase}:${Math.floor(percent)}`;
+    if (key === load.lastProgress) {
+        return;
+    }
+    load.lastProgress = key;
+
+    const index = LOADING_PHASES.indexOf(phase);
+    const totalPercent = index < 0 ? 0 : (index * 100 + percent) / LOADING_PHASES.length;
+    load.dotNetHelper.invokeMethodAsync('ReportModelLoadProgress', {
+        loadId: load.loadId,
+        phase,
+        percent: Math.round(percent),
+        totalPercent: Math.round(totalPercent),
+        message
+    });
+}
+
+function startQueuedModelLoads(queue: ModelLoadQueue): void {
+    while (queue.running < queue.maxConcurrent && queue.waiting.length > 0) {
+        const load = queue.waiting.shift()!;
+        queue.running++;
+
+        let released = false;
+        load.release = () => {
+            if (!released) {
+                released = true;
+                queue.running--;
+                startQueuedModelLoads(queue);
+            }
+        };
+        runModelLoad(load);
+    }
+}
+
+// Download a model with the request headers and a bearer token from .NET. When the server
+// rejects the token with 401, .NET is asked for a refreshed token and the request is retried once.
+async function downloadModel(load: PendingModelLoad, signal: AbortSignal): Promise<Blob> {
+    const request = async (refreshToken: boolean): Promise<Response> => {
+        const headers: Record<string, string> = { ...(load.options.headers ?? {}) };
+        if (load.options.useAccessToken && load.dotNetHelper) {
+            const token: string | null = await load.dotNetHelper.invokeMethodAsync('GetModelAccessToken', load.loadId, refreshToken);
+            if (token) {
+                headers['Authorization'] = `Bearer ${token}`;
+            }
+        }
+        return fetch(load.modelUrl, { headers, signal });
+    };
+
+    let response = await request(false);
+    if (response.status === 401 && load.options.useAccessToken) {
+        response = await request(true);
+    }
+
+    if (!response.ok) {
+        const failure: ModelLoadResult = {
+            modelId: null,
+            reason: response.status === 401 || response.status === 403 ? 'unauthorized' : 'download',
+            message: `Server responded with ${response.status} ${response.statusText}`.trim(),
+            status: response.status
+        };
+        throw failure;
+    }
+
+    const total = Number(response.headers.get('Content-Length')) || 0;
+    if (!response.body || total === 0) {
+        return await response.blob();
+    }
+
+    return await readModelChunks(load, response.body.getReader(), total);
+}
+
+// Read a model sent from .NET with a DotNetStreamReference. The stream arrives in chunks,
+// so large files don't need a single interop message or a blob URL.
+async function readModelStream(load: PendingModelLoad): Promise<Blob> {
+    const stream: ReadableStream<Uint8Array<ArrayBuffer>> = await load.stream.stream();
+    return await readModelChunks(load, stream.getReader(), load.options.size ?? 0);
+}
+
+// Collect the chunks of a download into a Blob and report the progress. Stops when the load was cancelled.
+async function readModelChunks(load: PendingModelLoad, reader: ReadableStreamDefaultReader<Uint8Array<ArrayBuffer>>, total: number): Promise<Blob> {
+    const chunks: BlobPart[] = [];
+    let received = 0;
+    for (;;) {
+        if (load.settled) {
+            await reader.cancel();
+            break;
+        }
+
+        const { done, value } = await reader.read();
+        if (done || !value) {
+            break;
+        }
+        chunks.push(value);
+        received += value.length;
+        if (total > 0) {
+            reportModelLoadProgress(load, 'downloading', Math.min(received / total * 100, 100), 'Downloading geometry');
+        }
+    }
+    return new Blob(chunks);
+}
+
+let createdWorkers: Worker[] | null = null; // collected by captureWorker
+let workerTrackingInstalled = false;
+
+// Run an action and return the Web Worker it creates. This depends on the internals of the viewer bundle:
+// loadAsync creates one Worker per model synchronously and keeps it to itself, but the worker is the only
+// way to tell which load failed and to stop a load. Worker is replaced once by a subclass which reports
+// the workers created while an action runs and is transparent to any other code.
+function captureWorker(action: () => void): Worker | null {
+    if (!workerTrackingInstalled && window.Worker) {
+        workerTrackingInstalled = true;
+        window.Worker = class extends window.Worker {
+            constructor(scriptUrl: string | URL, options?: WorkerOptions) {
+                super(scriptUrl, options);
+                createdWorkers?.push(this);
+            }
+        };
+    }
+
+    const workers: Worker[] = [];
+    createdWorkers = workers;
     try {
-        console.log(`Loading model from URL: ${modelUrl}`);
-        const viewer = viewerInstances.get(viewerId);
-        if (!viewer) {
-            console.error(`Viewer with id ${viewerId} not found`);
-            return null;
+        action();
+    } finally {
+        createdWorkers = null;
+    }
+
+    if (workers.length !== 1) {
+        // Without Web Workers loadAsync loads on the main thread; the load then settles only when it completes
+        console.warn(`Expected the model loader to create one worker, got ${workers.length}`);
+        return null;
+    }
+    return workers[0];
+}
+
+function runModelLoad(load: PendingModelLoad): void {
+    const viewer = viewerInstances.get(load.viewerId);
+    if (!viewer) {
+        settleModelLoad(load, { modelId: null, reason: 'error', message: `Viewer with id ${load.viewerId} not found` });
+        load.release!();
+        return;
+    }
+
+    // The last progress message of a load carries the ID of the loaded model, so loads with the same
+    // tag are told apart. A model which loads after its load was cancelled or timed out is unloaded again.
+    const onLoaded = (modelId: number) => {
+        load.release!();
+
+        if (load.settled) {
+            viewer.unload(modelId);
+            return;
         }
-        
-        console.log("Found viewer instance, loading model...");
-        
-        // Wait for the model to load using a Promise
-        return await new Promise<number | null>((resolve, reject) => {
-            // Set up one-time event handlers for load success and failure
-            const onLoaded = (args: any) => {
-                console.log("Model loaded successfully. Event args:", JSON.stringify(args));
-                viewer.off('loaded', onLoaded);
-                viewer.off('error', onError);
-                
-                // Extract model ID from the loaded event
-                // The xBIM viewer returns the handle ID in the event
-                let modelId = args?.model;
-                
-                // If model ID not in args, try to get it from the viewer's handles
-                if (modelId === undefined || modelId === null) {
-                    // The viewer stores model handles, try to access them
-                    const viewerAny = viewer as any;
-                    if (viewerAny._handles && viewerAny._handles.length > 0) {
-                        // Get the last added handle (most recently loaded)
-                        const lastHandle = viewerAny._handles[viewerAny._handles.length - 1];
-                        modelId = lastHandle?.id || viewerAny._handles.length - 1;
-                        console.log("Extracted model ID from viewer handles:", modelId);
-                    }
-                }
-                
-                // If still no model ID, use 0 as default (first model)
-                if (modelId === undefined || modelId === null) {
-                    modelId = 0;
-                    console.warn("Could not determine model ID, using default:", modelId);
-                }
-                
-                console.log("Final model ID:", modelId);
-                
-                // Track the loaded model
-                if (!loadedModels.has(viewerId)) {
-                    loadedModels.set(viewerId, new Map());
+
+        if (!loadedModels.has(load.viewerId)) {
+            loadedModels.set(load.viewerId, new Map());
+        }
+        loadedModels.get(load.viewerId)!.set(modelId, {
+            id: modelId,
+            url: load.modelUrl,
+            tag: load.tag,
+            loadedAt: new Date()
+        });
+
+        console.log(`✓ Loaded model ${modelId} from ${load.modelUrl}`);
+        settleModelLoad(load, { modelId });
+    };
+
+    const fail = (reason: string, message: string) => {
+        load.release!();
+        settleModelLoad(load, { modelId: null, reason, message });
+    };
+
+    const onProgress = (message: any) => {
+        if (message.type === MessageType.COMPLETED && message.wexbimId != null) {
+            onLoaded(message.wexbimId);
+            return;
+        }
+
+        if (message.type === MessageType.FAILED) {
+            fail(message.phase === LoadingPhase.DOWNLOADING ? 'download' : 'parse', String(message.message));
+            return;
+        }
+
+        reportModelLoadProgress(load, LOADING_PHASES[message.phase] ?? 'loading', message.percent ?? 0, String(message.message ?? ''));
+    };
+
+    const timeout = load.options.timeout;
+    if (timeout && timeout > 0) {
+        load.timer = window.setTimeout(() => {
+            settleModelLoad(load, { modelId: null, reason: 'timeout', message: `Loading did not finish within ${timeout} ms` });
+            stopModelLoad(load);
+        }, timeout);
+    }
+
+    const start = (model: string | Blob) => {
+        try {
+            const worker = captureWorker(() => viewer.loadAsync(model, load.tag, undefined, onProgress));
+            if (!worker) {
+                return;
+            }
+            load.worker = worker;
+
+            // An error in the worker only reaches the untagged 'error' event of the viewer, and an error
+            // adding the model to the viewer no event at all. Without these the load never settles.
+            worker.addEventListener('error', (event: ErrorEvent) => {
+                fail('error', event.message || 'The model loader failed');
+                worker.terminate();
+            });
+            const onMessage = worker.onmessage;
+            worker.onmessage = function (event: MessageEvent) {
+                try {
+                    onMessage?.call(this, event);
+                } catch (error) {
+                    fail('error', String(error));
+                    throw error;
                 }
-                loadedModels.get(viewerId)!.set(modelId, {
-                    id: modelId,
-                    url: modelUrl,
-                    tag: tag,
-                    loadedAt: new Date()
-                });
-                
-                resolve(modelId);
-            };
-            
-            const onError = (args: any) => {
-                console.error("Error loading model:", args);
-                viewer.off('loaded', onLoaded);
-                viewer.off('error', onError);
-                resolve(null);
             };
-            
-            viewer.on('loaded', onLoaded);
-            viewer.on('error', onError);
-            
-            // Start loading the model with tag
-            viewer.loadAsync(modelUrl, tag);
-        });
-    } catch (error) {
-        console.error('Error loading model:', error);
-        return null;
+        } catch (error) {
+            fail('error', String(error));
+        }
+    };
+
+    const headers = load.options.headers;
+    if (!load.stream && !load.options.useAccessToken && (!headers || Object.keys(headers).length === 0)) {
+        console.log(`Loading model from URL: ${load.modelUrl}`);
+        start(load.modelUrl);
+        return;
+    }
+
+    // Streamed models are read from .NET and authenticated models are downloaded here, so the
+    // status code is known and the download can be aborted. The viewer loads the resulting Blob.
+    let source: Promise<Blob>;
+    if (load.stream) {
+        console.log(`Loading model ${load.modelUrl} from .NET stream`);
+        source = readModelStream(load);
+    } else {
+        console.log(`Downloading model from URL: ${load.modelUrl}`);
+        load.abort = new AbortController();
+        source = downloadModel(load, load.abort.signal);
+    }
+
+    source.then(blob => {
+        if (!load.settled) {
+            start(blob);
+        }
+    }, (error: any) => {
+        load.release!();
+        settleModelLoad(load, error?.reason
+            ? error
+            : { modelId: null, reason: load.stream ? 'error' : 'download', message: String(error?.message ?? error) });
+    });
+}
+
+function enqueueModelLoad(load: PendingModelLoad): void {
+    if (!viewerInstances.has(load.viewerId)) {
+        settleModelLoad(load, { modelId: null, reason: 'error', message: `Viewer with id ${load.viewerId} not found` });
+        return;
+    }
+
+    const queue = getModelLoadQueue(load.viewerId);
+    if (load.options.maxConcurrentLoads && load.options.maxConcurrentLoads > 0) {
+        queue.maxConcurrent = load.options.maxConcurrentLoads;
+    }
+
+    queue.loads.set(load.loadId, load);
+    queue.waiting.push(load);
+    startQueuedModelLoads(queue);
+
+    if (queue.waiting.includes(load)) {
+        reportModelLoadProgress(load, 'queued', 0, 'Waiting for other models to load');
+    }
+}
+
+// Queue a model load. Loads run concurrently up to the queue limit; progress is reported to
+// dotNetHelper.ReportModelLoadProgress and the load can be cancelled with cancelModelLoad.
+export function queueModelLoad(
+    viewerId: string,
+    loadId: string,
+    modelUrl: string,
+    tag: any,
+    options: ModelLoadOptions | null,
+    dotNetHelper: any
+): Promise<ModelLoadResult> {
+    return new Promise<ModelLoadResult>(resolve => enqueueModelLoad({
+        loadId,
+        viewerId,
+        modelUrl,
+        tag,
+        options: options ?? {},
+        dotNetHelper,
+        resolve,
+        settled: false
+    }));
+}
+
+// Queue the load of a model streamed from .NET (DotNetStreamReference). Options.size is the
+// length of the stream, used for progress reporting.
+export function queueModelStreamLoad(
+    viewerId: string,
+    loadId: string,
+    stream: any,
+    name: string,
+    tag: any,
+    options: ModelLoadOptions | null,
+    dotNetHelper: any
+): Promise<ModelLoadResult> {
+    return new Promise<ModelLoadResult>(resolve => enqueueModelLoad({
+        loadId,
+        viewerId,
+        modelUrl: name,
+        stream,
+        tag,
+        options: options ?? {},
+        dotNetHelper,
+        resolve,
+        settled: false
+    }));
+}
+
+// Cancel a queued or running load. Downloads are aborted and the model loader is stopped; a model
+// which still finishes loading is unloaded again.
+export function cancelModelLoad(viewerId: string, loadId: string): boolean {
+    const queue = modelLoadQueues.get(viewerId);
+    const load = queue?.loads.get(loadId);
+    if (!queue || !load) {
+        return false;
+    }
+
+    const index = queue.waiting.indexOf(load);
+    if (index >= 0) {
+        queue.waiting.splice(index, 1);
     }
+
+    settleModelLoad(load, { modelId: null, reason: 'cancelled', message: 'Loading was cancelled' });
+    stopModelLoad(load);
+    return true;
+}
+
+// Load a model from a URL with optional tag for identification
+export async function loadModel(viewerId: string, modelUrl: string, tag?: any): Promise<number | null> {
+    const result = await queueModelLoad(viewerId, `load_${modelLoadCounter++}`, modelUrl, tag, null, null);
+    return result.modelId;
 }
 
 // Start the viewer
@@ -404,6 +772,119 @@ export async function show(viewerId: string, type: number, id?: number, model?:
     }
 }
 
+// Camera state. Position, direction and up are in model coordinates (current WCS added)
+// so they stay valid when other models change the WCS. Matrices are relative to `wcs`.
+interface CameraState {
+    position: number[];
+    direction: number[];
+    up: number[];
+    type: number;
+    fov: number;
+    height: number;
+    wcs?: number[] | null;
+    mvMatrix?: number[] | null;
+    pMatrix?: number[] | null;
+}
+
+// Model view matrix looking along a direction (same layout as mat4.lookAt)
+function lookAlong(eye: number[], direction: number[], up: number[]): number[] | null {
+    const normalize = (v: number[]) => {
+        const len = Math.hypot(v[0], v[1], v[2]);
+        return len > 1e-9 ? v.map(c => c / len) : null;
+    };
+    const cross = (a: number[], b: number[]) => [
+        a[1] * b[2] - a[2] * b[1],
+        a[2] * b[0] - a[0] * b[2],
+        a[0] * b[1] - a[1] * b[0]
+    ];
+    const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+    const z = normalize(direction.map(c => -c));
+    if (!z) return null;
+
+    // Fall back to a world axis when up is parallel to the view direction
+    const x = normalize(cross(up, z))
+        ?? normalize(cross([0, 0, 1], z))
+        ?? normalize(cross([0, 1, 0], z));
+    if (!x) return null;
+    const y = cross(z, x);
+
+    return [
+        x[0], y[0], z[0], 0,
+        x[1], y[1], z[1], 0,
+        x[2], y[2], z[2], 0,
+        -dot(x, eye), -dot(y, eye), -dot(z, eye), 1
+    ];
+}
+
+// Get the current camera state
+export function getCamera(viewerId: string): CameraState | null {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return null;
+        }
+
+        const properties = viewer.cameraProperties;
+        return {
+            position: Array.from(viewer.getCameraPositionWcs() as ArrayLike<number>),
+            direction: Array.from(viewer.getCameraDirection() as ArrayLike<number>),
+            up: Array.from(viewer.getCameraHeading() as ArrayLike<number>),
+            type: properties.type,
+            fov: properties.fov,
+            height: properties.height,
+            wcs: Array.from(viewer.getCurrentWcs() as ArrayLike<number>),
+            mvMatrix: Array.from(viewer.mvMatrix as ArrayLike<number>),
+            pMatrix: Array.from(viewer.pMatrix as ArrayLike<number>)
+        };
+    } catch (error) {
+        console.error('Error getting camera:', error);
+        return null;
+    }
+}
+
+// Set the camera state, animating to the new view when duration > 0.
+// Position/direction/up take precedence; mvMatrix is used when they are missing.
+// The projection matrix is derived from type, fov and height and is not applied.
+export async function setCamera(viewerId: string, camera: CameraState, duration: number = 0): Promise<boolean> {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        let mv: number[] | null = null;
+        if (camera.position?.length === 3 && camera.direction?.length === 3) {
+            const wcs = viewer.getCurrentWcs();
+            const eye = camera.position.map((c, i) => c - wcs[i]);
+            mv = lookAlong(eye, camera.direction, camera.up?.length === 3 ? camera.up : [0, 0, 1]);
+        } else if (camera.mvMatrix?.length === 16) {
+            mv = camera.mvMatrix;
+        }
+
+        if (!mv) {
+            console.error('Camera has no valid position and direction or model view matrix');
+            return false;
+        }
+
+        if (camera.fov > 0) {
+            viewer.cameraProperties.fov = camera.fov;
+        }
+        if (camera.type === CameraType.PERSPECTIVE || camera.type === CameraType.ORTHOGONAL) {
+            viewer.camera = camera.type;
+        }
+
+        const height = camera.height > 0 ? camera.height : viewer.cameraProperties.height;
+        await viewer.animations.viewTo({ mv: new Float32Array(mv) as any, height }, Math.max(0, duration));
+        return true;
+    } catch (error) {
+        console.error('Error setting camera:', error);
+        return false;
+    }
+}
+
 // Hide specific elements by their IDs
 export function hideElements(viewerId: string, elementIds: number[]): boolean {
     try {
@@ -414,7 +895,7 @@ export function hideElements(viewerId: string, elementIds: number[]): boolean {
         }
         
         // Set state to HIDDEN for the specified elements
-        viewer.setState(State.HIDDEN, elementIds);
+        recordViewerChange(viewerId, viewer, () => viewer.setState(State.HIDDEN, elementIds));
         console.log(`Hidden ${elementIds.length} elements`);
         return true;
     } catch (error) {
@@ -433,7 +914,7 @@ export function showElements(viewerId: string, elementIds: number[]): boolean {
         }
         
         // Remove HIDDEN state to make elements visible again
-        viewer.removeState(State.HIDDEN, elementIds);
+        recordViewerChange(viewerId, viewer, () => viewer.removeState(State.HIDDEN, elementIds));
         console.log(`Shown ${elementIds.length} elements`);
         return true;
     } catch (error) {
@@ -453,7 +934,7 @@ export function unhideAllElements(viewerId: string): boolean {
         const hidden = viewer.getProductsWithState(State.HIDDEN);
         if (hidden && hidden.length > 0) {
             const ids = hidden.map(p => p.id);
-            viewer.removeState(State.HIDDEN, ids);
+            recordViewerChange(viewerId, viewer, () => viewer.removeState(State.HIDDEN, ids));
         }
         return true;
     } catch (error) {
@@ -524,16 +1005,18 @@ export function isolateElements(viewerId: string, elementIds: number[], modelId?
         
         // Use native isolate if modelId is provided
         if (modelId !== undefined) {
-            viewer.isolate(elementIds, modelId);
+            recordViewerChange(viewerId, viewer, () => viewer.isolate(elementIds, modelId));
             console.log(`✓ Isolated ${elementIds.length} elements in model ${modelId}`);
             return true;
         }
         
         // If no modelId, isolate in all models
         if (viewerAny._handles && viewerAny._handles.length > 0) {
-            for (const handle of viewerAny._handles) {
-                viewer.isolate(elementIds, handle.id);
-            }
+            recordViewerChange(viewerId, viewer, () => {
+                for (const handle of viewerAny._handles) {
+                    viewer.isolate(elementIds, handle.id);
+                }
+            });
             console.log(`✓ Isolated ${elementIds.length} elements in all models`);
             return true;
         }
@@ -556,31 +1039,33 @@ export function unisolateElements(viewerId: string, modelId?: number): boolean {
         
         const viewerAny = viewer as any;
         
-        // Clear isolation by setting isolatedProducts to undefined on handles
-        // Using viewer.isolate([]) doesn't work - it isolates "nothing" instead of clearing
-        if (viewerAny._handles && viewerAny._handles.length > 0) {
-            for (const handle of viewerAny._handles) {
-                if (modelId !== undefined && handle.id !== modelId) {
-                    continue;
-                }
-                // Clear the isolation by setting to undefined (not empty array)
-                if (handle.isolatedProducts !== undefined) {
-                    handle.isolatedProducts = undefined;
-                }
-                // Also try resetting via the stopped property if isolation uses that
-                if (handle._model) {
-                    handle._model.isolatedProducts = undefined;
+        recordViewerChange(viewerId, viewer, () => {
+            // Clear isolation by setting isolatedProducts to undefined on handles
+            // Using viewer.isolate([]) doesn't work - it isolates "nothing" instead of clearing
+            if (viewerAny._handles && viewerAny._handles.length > 0) {
+                for (const handle of viewerAny._handles) {
+                    if (modelId !== undefined && handle.id !== modelId) {
+                        continue;
+                    }
+                    // Clear the isolation by setting to undefined (not empty array)
+                    if (handle.isolatedProducts !== undefined) {
+                        handle.isolatedProducts = undefined;
+                    }
+                    // Also try resetting via the stopped property if isolation uses that
+                    if (handle._model) {
+                        handle._model.isolatedProducts = undefined;
+                    }
                 }
             }
-        }
-        
-        // Also remove any HIDDEN states
-        const hiddenProducts = viewer.getProductsWithState(State.HIDDEN);
-        if (hiddenProducts.length > 0) {
-            const hiddenIds = hiddenProducts.map((p: any) => p.id);
-            viewer.removeState(State.HIDDEN, hiddenIds);
-        }
-        
+
+            // Also remove any HIDDEN states
+            const hiddenProducts = viewer.getProductsWithState(State.HIDDEN);
+            if (hiddenProducts.length > 0) {
+                const hiddenIds = hiddenProducts.map((p: any) => p.id);
+                viewer.removeState(State.HIDDEN, hiddenIds);
+            }
+        });
+
         // Reset the section box to infinity to prevent "disjoint" issues
         if (viewer.sectionBox) {
             viewer.sectionBox.setToInfinity();
@@ -665,7 +1150,7 @@ export function highlightElements(viewerId: string, elementIds: number[], modelI
         }
         
         // Use setState to highlight (select) elements
-        viewer.setState(State.HIGHLIGHTED, elementIds, modelId);
+        recordViewerChange(viewerId, viewer, () => viewer.setState(State.HIGHLIGHTED, elementIds, modelId));
         console.log(`Highlighted ${elementIds.length} elements`);
         return true;
     } catch (error) {
@@ -683,8 +1168,10 @@ export function unhighlightElements(viewerId: string, elementIds: number[], mode
             return false;
         }
         
-        viewer.removeState(State.HIGHLIGHTED, elementIds, modelId);
-        viewer.resetState(elementIds, modelId);
+        recordViewerChange(viewerId, viewer, () => {
+            viewer.removeState(State.HIGHLIGHTED, elementIds, modelId);
+            viewer.resetState(elementIds, modelId);
+        });
         return true;
     } catch (error) {
         console.error('Error unhighlighting elements:', error);
@@ -719,7 +1206,7 @@ export function addToSelection(viewerId: string, elementIds: number[], modelId?:
         }
         
         // Use addState to add to highlighted elements
-        viewer.addState(State.HIGHLIGHTED, elementIds, modelId);
+        recordViewerChange(viewerId, viewer, () => viewer.addState(State.HIGHLIGHTED, elementIds, modelId));
         console.log(`Added ${elementIds.length} elements to selection`);
         return true;
     } catch (error) {
@@ -738,7 +1225,7 @@ export function removeFromSelection(viewerId: string, elementIds: number[], mode
         }
         
         // Remove HIGHLIGHTED state from elements
-        viewer.removeState(State.HIGHLIGHTED, elementIds, modelId);
+        recordViewerChange(viewerId, viewer, () => viewer.removeState(State.HIGHLIGHTED, elementIds, modelId));
         console.log(`Removed ${elementIds.length} elements from selection`);
         return true;
     } catch (error) {
@@ -756,7 +1243,7 @@ export function clearSelection(viewerId: string): boolean {
             return false;
         }
         
-        viewer.clearHighlighting();
+        recordViewerChange(viewerId, viewer, () => viewer.clearHighlighting());
         console.log("Selection cleared");
         return true;
     } catch (error) {
@@ -996,6 +1483,20 @@ export async function addPlugin(viewerId: string, pluginId: string, pluginType:
         console.log(`Adding plugin ${pluginType} with config:`, config);
 
         const plugin = new PluginClass();
+
+        // The heatmap allocates its colours from its own style range (see MAX_STYLES)
+        if (pluginType === 'Heatmap') {
+            manageHeatmapStyles(plugin);
+        }
+
+        // Clipping plane plugins only clip the models selected with setClippingPlaneModels,
+        // section box plugins report boxes dragged by the user
+        if (isClippingPlanePlugin(plugin)) {
+            patchClippingPlanePlugin(viewerId, plugin);
+        }
+        if (isSectionBoxPlugin(plugin)) {
+            patchSectionBoxPlugin(viewerId, plugin);
+        }
         
         // Set non-stopped properties before adding to viewer
         let stoppedValue: boolean | undefined = undefined;
@@ -1128,7 +1629,11 @@ export async function setPluginStopped(viewerId: string, pluginId: string, stopp
                 const channels: any[] = (plugin as any)._channels;
                 if (channels) {
                     for (const ch of channels) {
-                        try { plugin.renderChannel(ch.channelId); } catch (_) {}
+                        try {
+                            plugin.renderChannel(ch.channelId);
+                        } catch (error) {
+                            console.error(`Error rendering heatmap channel ${ch.channelId}:`, error);
+                        }
                     }
                 }
             }
@@ -1159,8 +1664,8 @@ export function getActivePlugins(viewerId: string): any[] {
     }));
 }
 
-// Unclip the viewer (remove clipping plane)
-export function unclip(viewerId: string): boolean {
+// Unclip the viewer (remove clipping planes of the given models or of all models)
+export function unclip(viewerId: string, modelIds?: number[] | null): boolean {
     try {
         const viewer = viewerInstances.get(viewerId);
         if (!viewer) {
@@ -1168,7 +1673,13 @@ export function unclip(viewerId: string): boolean {
             return false;
         }
 
-        viewer.unclip();
+        recordViewerChange(viewerId, viewer, () => {
+            if (modelIds) {
+                modelIds.forEach(id => viewer.unclip(id));
+            } else {
+                viewer.unclip();
+            }
+        });
         return true;
     } catch (error) {
         console.error(`Error unclipping viewer:`, error);
@@ -1313,9 +1824,36 @@ export function disposeViewer(viewerId: string): boolean {
             pluginInstances.delete(viewerId);
         }
 
-        // Clear loaded models tracking
+        // Cancel pending loads and clear loaded models tracking
+        Array.from(modelLoadQueues.get(viewerId)?.loads.values() ?? []).forEach(load =>
+            settleModelLoad(load, { modelId: null, reason: 'cancelled', message: 'The viewer was disposed' }));
+        modelLoadQueues.delete(viewerId);
         loadedModels.delete(viewerId);
 
+        // Drop undo/redo history
+        viewerSessions.delete(viewerId);
+
+        // Remove measurement overlay
+        const measurementTool = measurementTools.get(viewerId);
+        if (measurementTool) {
+            measurementTool.dispose();
+            viewer.removePlugin(measurementTool as any);
+            measurementTools.delete(viewerId);
+        }
+
+        // Drop clipping, section box, storey plan, pivot, ghost, alignment, link and comparison state
+        stopClippingPlanePick(viewerId);
+        clearTimeout(clippingSettings.get(viewerId)?.notifyTimer);
+        clippingSettings.delete(viewerId);
+        clearTimeout(sectionBoxWatchers.get(viewerId)?.notifyTimer);
+        sectionBoxWatchers.delete(viewerId);
+        storeyPlans.delete(viewerId);
+        disablePivotOnRightClick(viewerId);
+        ghostStates.delete(viewerId);
+        modelOrigins.delete(viewerId);
+        unlinkViewer(viewerId);
+        modelComparisons.delete(viewerId);
+
         // Stop the rendering loop
         viewer.stop();
 
@@ -1491,6 +2029,14 @@ function getPluginInstance(viewerId: string, pluginId: string): any | null {
     return plugins.get(pluginId) ?? null;
 }
 
+// Configuration of a heatmap source as sent from .NET
+interface HeatmapSourceConfig {
+    id: string;
+    products: Array<{ id: number; model: number }>;
+    channelId: string;
+    value: any;
+}
+
 // Add a heatmap channel to the Heatmap plugin
 export function addHeatmapChannel(
     viewerId: string,
@@ -1601,12 +2147,7 @@ export function addHeatmapChannel(
 export function addHeatmapSource(
     viewerId: string,
     pluginId: string,
-    sourceConfig: {
-        id: string;
-        products: Array<{ id: number; model: number }>;
-        channelId: string;
-        value: any;
-    }
+    sourceConfig: HeatmapSourceConfig
 ): boolean {
     try {
         const plugin = getPluginInstance(viewerId, pluginId);
@@ -1697,30 +2238,395 @@ export function updateHeatmapSourceValue(
     }
 }
 
-// ============================================================
-// Data Visualization: Icons Plugin Functions
-// ============================================================
+// Legend of a heatmap channel: gradient stops, value ranges or discrete values depending on the type
+interface HeatmapLegend {
+    channelId: string;
+    channelType: string;
+    name: string;
+    description: string;
+    property: string;
+    unit: string;
+    min: number | null;
+    max: number | null;
+    stops: Array<{ value: number; color: string }>;
+    ranges: Array<{ min: number; max: number; color: string; label: string; priority: number }>;
+    values: Array<{ value: string; color: string }>;
+    color: string | null;
+    sourceCount: number;
+}
 
-// Add an icon to the Icons plugin
-export function addIcon(
-    viewerId: string,
-    pluginId: string,
-    iconConfig: {
-        name: string;
-        description: string;
-        valueReadout: string | null;
-        products: Array<{ id: number; model: number }> | null;
-        imageData: string | null;
-        location: number[] | null;
-        width: number | null;
-        height: number | null;
+// ChannelType values of the viewer mapped to the names used by addHeatmapChannel
+const HEATMAP_CHANNEL_TYPES: { [channelType: string]: string } = {
+    continuous: 'Continuous',
+    discrete: 'Discrete',
+    valueRanges: 'ValueRanges',
+    Constant: 'Constant'
+};
+
+// Remove the heatmap colour from the products of removed sources. Products still fed by a remaining
+// source keep their colour, and products ghost isolated by ghostIsolate stay x-ray visible.
+function unstyleHeatmapSources(viewerId: string, plugin: any, removed: any[]): void {
+    const viewer = viewerInstances.get(viewerId);
+    if (!viewer || removed.length === 0) return;
+
+    const remaining = new Set<string>();
+    for (const source of plugin._sources as any[]) {
+        for (const p of source.products) remaining.add(`${p.model}:${p.id}`);
     }
-): boolean {
-    try {
-        const plugin = getPluginInstance(viewerId, pluginId);
-        if (!plugin) {
-            console.error(`Plugin ${pluginId} not found for viewer ${viewerId}`);
-            return false;
+
+    const byModel = new Map<number, number[]>();
+    for (const source of removed) {
+        for (const p of source.products) {
+            if (remaining.has(`${p.model}:${p.id}`)) continue;
+            if (!byModel.has(p.model)) byModel.set(p.model, []);
+            byModel.get(p.model)!.push(p.id);
+        }
+    }
+
+    const ghosted = ghostStates.get(viewerId)?.products;
+    byModel.forEach((ids, modelId) => {
+        if (!findModelHandle(viewer, modelId)) return;
+        viewer.setStyle(State.UNSTYLED, ids, modelId);
+        const ghostedIds = new Set(ghosted?.get(modelId) ?? []);
+        const xrayIds = ids.filter(id => !ghostedIds.has(id));
+        if (xrayIds.length > 0) {
+            viewer.removeState(State.XRAYVISIBLE as any, xrayIds, modelId);
+        }
+    });
+    viewer.draw();
+}
+
+// Style indices used by each heatmap channel, by plugin
+const heatmapChannelStyles = new WeakMap<any, Map<string, Set<number>>>();
+
+// The heatmap plugin defines a style per colour with _nextStyleId++ and never frees it, so swapping
+// channels would run out of the heatmap range. Replace the counter by the lowest free index of the range
+// and keep track of the styles each channel renders with, so that they are freed with the channel.
+function manageHeatmapStyles(plugin: any): void {
+    let next: number | null = null;
+    Object.defineProperty(plugin, '_nextStyleId', {
+        configurable: true,
+        get: () => next ??= getFreeHeatmapStyle(plugin),
+        // The plugin increments the counter once the style is in its colour maps
+        set: () => { next = null; }
+    });
+
+    const channelStyles = new Map<string, Set<number>>();
+    heatmapChannelStyles.set(plugin, channelStyles);
+
+    const renderChannelInternal = plugin.renderChannelInternal;
+    plugin.renderChannelInternal = function (channel: any, sources: any[] | null = null) {
+        if (!channel) {
+            return renderChannelInternal.call(this, channel, sources);
+        }
+
+        const viewer = this._viewer;
+        const { defineStyle, setStyle } = viewer;
+        const styles = new Set<number>();
+        viewer.defineStyle = (index: number, ...args: any[]) => {
+            styles.add(index);
+            return defineStyle.call(viewer, index, ...args);
+        };
+        viewer.setStyle = (index: number, ...args: any[]) => {
+            styles.add(index);
+            return setStyle.call(viewer, index, ...args);
+        };
+        try {
+            renderChannelInternal.call(this, channel, sources);
+        } finally {
+            viewer.defineStyle = defineStyle;
+            viewer.setStyle = setStyle;
+        }
+
+        const previous = channelStyles.get(channel.channelId) ?? new Set<number>();
+        if (sources) {
+            // Only some sources were rendered, the others keep their styles
+            styles.forEach(index => previous.add(index));
+            channelStyles.set(channel.channelId, previous);
+        } else {
+            // All products of the channel were restyled, e.g. with new values of a continuous channel
+            channelStyles.set(channel.channelId, styles);
+            freeHeatmapStyles(plugin, [...previous].filter(index => !styles.has(index)));
+        }
+    };
+}
+
+// Lowest style index of the heatmap range not used by a colour
+function getFreeHeatmapStyle(plugin: any): number {
+    const used = new Set<number>([
+        ...Object.values(plugin._colorStylesMap) as number[],
+        ...Object.values(plugin._valueStylesMap) as number[]
+    ]);
+    // The plugin takes style 0 for a missing colour (!_colorStylesMap[color]), so it is never handed out
+    for (let index = Math.max(HEATMAP_STYLE_OFFSET, 1); index < STYLE_LAYER_OFFSET; index++) {
+        if (!used.has(index)) {
+            return index;
+        }
+    }
+    throw new Error(`The heatmap uses all ${STYLE_LAYER_OFFSET - HEATMAP_STYLE_OFFSET - 1} heatmap styles, use fewer colours or remove channels`);
+}
+
+// Free heatmap styles which no channel uses anymore
+function freeHeatmapStyles(plugin: any, indices: number[]): void {
+    const channelStyles = heatmapChannelStyles.get(plugin);
+    const used = [...(channelStyles?.values() ?? [])];
+    const freed = new Set(indices.filter(index => !used.some(styles => styles.has(index))));
+    if (freed.size === 0) return;
+
+    for (const map of [plugin._colorStylesMap, plugin._valueStylesMap]) {
+        for (const [key, index] of Object.entries(map)) {
+            if (freed.has(index as number)) {
+                delete map[key];
+            }
+        }
+    }
+}
+
+// Remove the sources matching the predicate and the colour of their products
+function removeHeatmapSourcesWhere(viewerId: string, plugin: any, predicate: (source: any) => boolean): void {
+    const sources: any[] = plugin._sources ?? [];
+    const removed = sources.filter(predicate);
+    if (removed.length === 0) return;
+
+    plugin._sources = sources.filter(s => !predicate(s));
+    unstyleHeatmapSources(viewerId, plugin, removed);
+}
+
+function isSameProducts(a: Array<{ id: number; model: number }>, b: Array<{ id: number; model: number }>): boolean {
+    return a.length === b.length && a.every((p, i) => p.id === b[i].id && p.model === b[i].model);
+}
+
+// Remove heatmap sources by ID. Unknown IDs are ignored.
+export function removeHeatmapSources(viewerId: string, pluginId: string, sourceIds: string[]): boolean {
+    try {
+        const plugin = getPluginInstance(viewerId, pluginId);
+        if (!plugin) {
+            console.error(`Plugin ${pluginId} not found for viewer ${viewerId}`);
+            return false;
+        }
+
+        const ids = new Set(sourceIds);
+        removeHeatmapSourcesWhere(viewerId, plugin, s => ids.has(s.id));
+        return true;
+    } catch (error) {
+        console.error('Error removing heatmap sources:', error);
+        return false;
+    }
+}
+
+// Remove all heatmap sources, or only the sources of a channel. The channels are kept.
+export function clearHeatmapSources(viewerId: string, pluginId: string, channelId: string | null): boolean {
+    try {
+        const plugin = getPluginInstance(viewerId, pluginId);
+        if (!plugin) {
+            console.error(`Plugin ${pluginId} not found for viewer ${viewerId}`);
+            return false;
+        }
+
+        removeHeatmapSourcesWhere(viewerId, plugin, s => channelId == null || s.channelId === channelId);
+        return true;
+    } catch (error) {
+        console.error('Error clearing heatmap sources:', error);
+        return false;
+    }
+}
+
+// Remove a heatmap channel together with its sources. An unknown channel is ignored.
+export function removeHeatmapChannel(viewerId: string, pluginId: string, channelId: string): boolean {
+    try {
+        const plugin = getPluginInstance(viewerId, pluginId);
+        if (!plugin) {
+            console.error(`Plugin ${pluginId} not found for viewer ${viewerId}`);
+            return false;
+        }
+
+        removeHeatmapSourcesWhere(viewerId, plugin, s => s.channelId === channelId);
+        plugin._channels = (plugin._channels as any[]).filter(c => c.channelId !== channelId);
+
+        const channelStyles = heatmapChannelStyles.get(plugin);
+        const styles = channelStyles?.get(channelId);
+        if (channelStyles && styles) {
+            channelStyles.delete(channelId);
+            freeHeatmapStyles(plugin, [...styles]);
+        }
+        return true;
+    } catch (error) {
+        console.error('Error removing heatmap channel:', error);
+        return false;
+    }
+}
+
+// Remove all heatmap channels and sources
+export function clearHeatmapChannels(viewerId: string, pluginId: string): boolean {
+    try {
+        const plugin = getPluginInstance(viewerId, pluginId);
+        if (!plugin) {
+            console.error(`Plugin ${pluginId} not found for viewer ${viewerId}`);
+            return false;
+        }
+
+        removeHeatmapSourcesWhere(viewerId, plugin, () => true);
+        plugin._channels = [];
+        // Free all heatmap styles (see manageHeatmapStyles)
+        plugin._colorStylesMap = {};
+        plugin._valueStylesMap = {};
+        heatmapChannelStyles.get(plugin)?.clear();
+        return true;
+    } catch (error) {
+        console.error('Error clearing heatmap channels:', error);
+        return false;
+    }
+}
+
+// Add or update heatmap sources in one call. Existing sources get the new value; sources moved to
+// another channel or other products are replaced. Optionally renders the affected channels.
+export function setHeatmapSources(
+    viewerId: string,
+    pluginId: string,
+    sourceConfigs: HeatmapSourceConfig[],
+    render: boolean
+): boolean {
+    try {
+        const plugin = getPluginInstance(viewerId, pluginId);
+        if (!plugin) {
+            console.error(`Plugin ${pluginId} not found for viewer ${viewerId}`);
+            return false;
+        }
+
+        const win = window as any;
+        const HeatmapSourceCtor = win.HeatmapSource || win.xbim?.HeatmapSource;
+        if (!HeatmapSourceCtor) { console.error('HeatmapSource not found'); return false; }
+
+        // Check the channels first so that a bad source doesn't leave the batch half applied
+        const missing = sourceConfigs.find(c => !plugin.getChannel(c.channelId));
+        if (missing) {
+            console.error(`Channel ${missing.channelId} of source ${missing.id} not found in plugin ${pluginId}`);
+            return false;
+        }
+
+        const sources: any[] = plugin._sources;
+        const replaced: any[] = [];
+        const channelIds = new Set<string>();
+        for (const config of sourceConfigs) {
+            const index = sources.findIndex(s => s.id === config.id);
+            const existing = index >= 0 ? sources[index] : null;
+            if (existing && existing.channelId === config.channelId && isSameProducts(existing.products, config.products)) {
+                existing.value = config.value;
+            } else {
+                const source = new HeatmapSourceCtor(config.id, config.products, config.channelId, config.value);
+                if (existing) {
+                    sources[index] = source;
+                    replaced.push(existing);
+                } else {
+                    plugin.addSource(source);
+                }
+            }
+            channelIds.add(config.channelId);
+        }
+
+        unstyleHeatmapSources(viewerId, plugin, replaced);
+        if (render && !plugin.stopped) {
+            channelIds.forEach(channelId => plugin.renderChannel(channelId));
+        }
+        return true;
+    } catch (error) {
+        console.error('Error setting heatmap sources:', error);
+        return false;
+    }
+}
+
+// Get the legend of a heatmap channel
+export function getHeatmapLegend(viewerId: string, pluginId: string, channelId: string): HeatmapLegend | null {
+    try {
+        const plugin = getPluginInstance(viewerId, pluginId);
+        if (!plugin) {
+            console.error(`Plugin ${pluginId} not found for viewer ${viewerId}`);
+            return null;
+        }
+
+        const channel = plugin.getChannel(channelId);
+        if (!channel) {
+            console.error(`Channel ${channelId} not found in plugin ${pluginId}`);
+            return null;
+        }
+
+        const legend: HeatmapLegend = {
+            channelId: channel.channelId,
+            channelType: HEATMAP_CHANNEL_TYPES[channel.channelType] ?? channel.channelType,
+            name: channel.name,
+            description: channel.description,
+            property: channel.property,
+            unit: channel.unit,
+            min: null,
+            max: null,
+            stops: [],
+            ranges: [],
+            values: [],
+            color: null,
+            sourceCount: (plugin._sources as any[]).filter(s => s.channelId === channelId).length
+        };
+
+        switch (legend.channelType) {
+            case 'Continuous': {
+                // The plugin spreads the gradient colours evenly between min and max
+                const gradient: string[] = channel.colorGradient ?? [];
+                legend.min = channel.min;
+                legend.max = channel.max;
+                legend.stops = gradient.map((color, i) => ({
+                    value: gradient.length > 1 ? channel.min + (channel.max - channel.min) * i / (gradient.length - 1) : channel.min,
+                    color
+                }));
+                break;
+            }
+            case 'Discrete':
+                legend.values = Object.entries(channel.values ?? {}).map(([value, color]) => ({ value, color: color as string }));
+                break;
+            case 'ValueRanges': {
+                legend.ranges = (channel.valueRanges as any[] ?? [])
+                    .map(r => ({ min: r.min, max: r.max, color: r.color, label: r.label, priority: r.priority }))
+                    .sort((a, b) => a.min - b.min);
+                if (legend.ranges.length > 0) {
+                    legend.min = Math.min(...legend.ranges.map(r => r.min));
+                    legend.max = Math.max(...legend.ranges.map(r => r.max));
+                }
+                break;
+            }
+            case 'Constant':
+                legend.color = channel.color;
+                break;
+        }
+
+        return legend;
+    } catch (error) {
+        console.error('Error getting heatmap legend:', error);
+        return null;
+    }
+}
+
+// ============================================================
+// Data Visualization: Icons Plugin Functions
+// ============================================================
+
+// Add an icon to the Icons plugin
+export function addIcon(
+    viewerId: string,
+    pluginId: string,
+    iconConfig: {
+        name: string;
+        description: string;
+        valueReadout: string | null;
+        products: Array<{ id: number; model: number }> | null;
+        imageData: string | null;
+        location: number[] | null;
+        width: number | null;
+        height: number | null;
+    }
+): boolean {
+    try {
+        const plugin = getPluginInstance(viewerId, pluginId);
+        if (!plugin) {
+            console.error(`Plugin ${pluginId} not found for viewer ${viewerId}`);
+            return false;
         }
 
         const win = window as any;
@@ -1924,4 +2830,3336 @@ export function updateGridColor(viewerId: string, pluginId: string, colour: numb
         console.error('Error updating grid color:', error);
         return false;
     }
+}
+
+// ============================================================
+// BCF Viewpoints
+// ============================================================
+
+// Local identity used for viewpoint components. The .NET side maps it to and from IFC GUIDs.
+function toBcfLocalId(productId: number, modelId: number): string {
+    return `${modelId}_${productId}`;
+}
+
+// Parse a local viewpoint component identity ("modelId_productId")
+function fromBcfLocalId(id: string): { productId: number, modelId: number } | null {
+    const match = /^(\d+)_(\d+)$/.exec(id ?? '');
+    if (!match) return null;
+
+    return { productId: parseInt(match[2], 10), modelId: parseInt(match[1], 10) };
+}
+
+// Resolve the BCF Viewpoint class exported by the viewer bundle
+function getViewpointClass(): any | null {
+    const win = window as any;
+    return win.Viewpoint || win.xbim?.Viewpoint || null;
+}
+
+// Scale all lengths of a viewpoint. BCF uses meters while the viewer works in model units.
+function scaleViewpoint(viewpoint: any, factor: number): any {
+    if (!factor || factor === 1) return viewpoint;
+
+    const point = (p: number[] | null | undefined) => p ? p.map(v => v * factor) : p;
+    const length = (v: number | null | undefined) => typeof v === 'number' ? v * factor : v;
+    const camera = (c: any) => c
+        ? { ...c, camera_view_point: point(c.camera_view_point), width: length(c.width), height: length(c.height) }
+        : c;
+
+    return {
+        ...viewpoint,
+        perspective_camera: camera(viewpoint.perspective_camera),
+        orthogonal_camera: camera(viewpoint.orthogonal_camera),
+        lines: viewpoint.lines?.map((l: any) => ({ ...l, start_point: point(l.start_point), end_point: point(l.end_point) })),
+        clipping_planes: viewpoint.clipping_planes?.map((p: any) => ({ ...p, location: point(p.location) })),
+        bitmaps: viewpoint.bitmaps?.map((b: any) => ({ ...b, location: point(b.location), height: length(b.height) }))
+    };
+}
+
+// Capture the current view as a BCF viewpoint (lengths in meters).
+// Components are identified by local ids ("modelId_productId") and mapped to IFC GUIDs by the caller.
+export function getViewpoint(viewerId: string, width?: number): any | null {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return null;
+        }
+
+        const ViewpointClass = getViewpointClass();
+        if (!ViewpointClass) {
+            console.error('BCF Viewpoint class not found');
+            return null;
+        }
+
+        const viewpoint = ViewpointClass.GetViewpoint(viewer, toBcfLocalId, width && width > 0 ? width : undefined);
+
+        // The library only captures the selection. Add visibility so hidden
+        // and isolated products survive the round-trip as well.
+        const components = viewpoint.components ?? { selection: [], coloring: [] };
+        const viewerAny = viewer as any;
+        const isolated: Array<{ id: number, model: number }> = [];
+        for (const handle of viewerAny._handles ?? []) {
+            if (handle.isolatedProducts && handle.isolatedProducts.length > 0) {
+                for (const id of handle.isolatedProducts) {
+                    isolated.push({ id, model: handle.id });
+                }
+            }
+        }
+
+        const exceptions = isolated.length > 0
+            ? isolated
+            : (viewer.getProductsWithState(State.HIDDEN) ?? []);
+
+        components.visibility = {
+            default_visibility: isolated.length === 0,
+            exceptions: exceptions.map(p => ({ ifc_guid: toBcfLocalId(p.id, p.model) })),
+            view_setup_hints: components.visibility?.view_setup_hints ?? null
+        };
+        viewpoint.components = components;
+
+        return scaleViewpoint(viewpoint, 1 / ((viewer as any).unitsInMeter || 1));
+    } catch (error) {
+        console.error('Error getting viewpoint:', error);
+        return null;
+    }
+}
+
+// Apply a BCF viewpoint (lengths in meters) to the viewer.
+// Components must already be mapped to local ids ("modelId_productId"); unknown ids are ignored.
+export function setViewpoint(viewerId: string, viewpoint: any, duration: number = 0): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        const ViewpointClass = getViewpointClass();
+        if (!ViewpointClass) {
+            console.error('BCF Viewpoint class not found');
+            return false;
+        }
+
+        const resolve = (components: any[] | null | undefined) =>
+            (components ?? [])
+                .map(c => fromBcfLocalId(c?.ifc_guid))
+                .filter((id): id is { productId: number, modelId: number } => id !== null);
+
+        // The library throws on ids it cannot map, so only pass resolvable selection
+        const selection = resolve(viewpoint.components?.selection);
+        const resolved = {
+            ...scaleViewpoint(viewpoint, (viewer as any).unitsInMeter || 1),
+            components: viewpoint.components
+                ? {
+                    ...viewpoint.components,
+                    selection: selection.map(id => ({ ifc_guid: toBcfLocalId(id.productId, id.modelId) }))
+                }
+                : undefined
+        };
+
+        // Recorded as a single undo step
+        recordViewerChange(viewerId, viewer, () => {
+            // Reset visibility before applying the viewpoint
+            unisolateElements(viewerId);
+
+            ViewpointClass.SetViewpoint(viewer, resolved, fromBcfLocalId, duration);
+
+            const visibility = viewpoint.components?.visibility;
+            if (visibility) {
+                const exceptions = resolve(visibility.exceptions);
+                const byModel = new Map<number, number[]>();
+                for (const id of exceptions) {
+                    if (!byModel.has(id.modelId)) byModel.set(id.modelId, []);
+                    byModel.get(id.modelId)!.push(id.productId);
+                }
+
+                if (visibility.default_visibility === false) {
+                    // Everything hidden except the exceptions
+                    byModel.forEach((ids, modelId) => viewer.isolate(ids, modelId));
+                } else {
+                    byModel.forEach((ids, modelId) => viewer.setState(State.HIDDEN, ids, modelId));
+                }
+            }
+        });
+
+        return true;
+    } catch (error) {
+        console.error('Error setting viewpoint:', error);
+        return false;
+    }
+}
+
+// ============================================================
+// File Download
+// ============================================================
+
+// Download a file streamed from .NET
+export async function downloadFile(fileName: string, contentType: string, streamRef: any): Promise<boolean> {
+    try {
+        const buffer = await streamRef.arrayBuffer();
+        const blob = new Blob([buffer], { type: contentType });
+        const url = URL.createObjectURL(blob);
+
+        const anchor = document.createElement('a');
+        anchor.href = url;
+        anchor.download = fileName;
+        document.body.appendChild(anchor);
+        anchor.click();
+        anchor.remove();
+
+        URL.revokeObjectURL(url);
+        return true;
+    } catch (error) {
+        console.error('Error downloading file:', error);
+        return false;
+    }
+}
+
+// ============================================================
+// Undo / Redo
+// ============================================================
+
+// Undoable viewer state: selection, hidden products, isolation and clipping planes per model
+interface ViewerStateSnapshot {
+    highlighted: Array<{ id: number, model: number }>;
+    hidden: Array<{ id: number, model: number }>;
+    handles: Array<{ id: number, isolated?: number[], stopped?: boolean, planeA?: number[], planeB?: number[] }>;
+}
+
+// Undo/redo history of a viewer. Follows the do/undo model of the library's ViewerSession,
+// which is not part of the viewer bundle; every step stores the state before and after the change.
+class ViewerStateSession {
+    private static readonly MAX_LENGTH = 100;
+    private _steps: Array<{ before: ViewerStateSnapshot, after: ViewerStateSnapshot }> = [];
+    private _position = 0;
+    private _recording = false;
+
+    get canUndo(): boolean {
+        return this._position > 0;
+    }
+
+    get canRedo(): boolean {
+        return this._position < this._steps.length;
+    }
+
+    // Run an action and record the state change it makes as one step.
+    // Nested calls are part of the outer step.
+    record(viewer: XbimViewer, action: () => void): void {
+        if (this._recording) {
+            action();
+            return;
+        }
+
+        const before = captureViewerState(viewer);
+        this._recording = true;
+        try {
+            action();
+        } finally {
+            this._recording = false;
+            const after = captureViewerState(viewer);
+            if (JSON.stringify(before) !== JSON.stringify(after)) {
+                // Only models started or stopped by the action are restored, so that undo doesn't
+                // revert models shown or hidden in the model manager in the meantime
+                for (const saved of before.handles) {
+                    const changed = after.handles.find(h => h.id === saved.id);
+                    if (changed && changed.stopped === saved.stopped) {
+                        delete saved.stopped;
+                        delete changed.stopped;
+                    }
+                }
+                // A new change discards the redo history
+                this._steps.splice(this._position);
+                this._steps.push({ before, after });
+                if (this._steps.length > ViewerStateSession.MAX_LENGTH) {
+                    this._steps.shift();
+                }
+                this._position = this._steps.length;
+            }
+        }
+    }
+
+    undo(viewer: XbimViewer): boolean {
+        if (!this.canUndo) {
+            return false;
+        }
+        this._position--;
+        restoreViewerState(viewer, this._steps[this._position].before);
+        return true;
+    }
+
+    redo(viewer: XbimViewer): boolean {
+        if (!this.canRedo) {
+            return false;
+        }
+        restoreViewerState(viewer, this._steps[this._position].after);
+        this._position++;
+        return true;
+    }
+
+    clear(): void {
+        this._steps = [];
+        this._position = 0;
+    }
+}
+
+const viewerSessions = new Map<string, ViewerStateSession>(); // viewerId -> undo/redo session
+
+function getViewerSession(viewerId: string): ViewerStateSession {
+    let session = viewerSessions.get(viewerId);
+    if (!session) {
+        session = new ViewerStateSession();
+        viewerSessions.set(viewerId, session);
+    }
+    return session;
+}
+
+// Apply a change to the viewer through its session so it can be undone
+function recordViewerChange(viewerId: string, viewer: XbimViewer, action: () => void): void {
+    getViewerSession(viewerId).record(viewer, action);
+    syncLinkedViewers(viewerId, viewer);
+}
+
+function captureViewerState(viewer: XbimViewer): ViewerStateSnapshot {
+    const viewerAny = viewer as any;
+    const copy = (products: Array<{ id: number, model: number }>) =>
+        (products ?? []).map(p => ({ id: p.id, model: p.model }));
+
+    return {
+        highlighted: copy(viewer.getProductsWithState(State.HIGHLIGHTED)),
+        hidden: copy(viewer.getProductsWithState(State.HIDDEN)),
+        handles: (viewerAny._handles ?? []).map((handle: any) => ({
+            id: handle.id,
+            isolated: handle.isolatedProducts ? Array.from(handle.isolatedProducts as number[]) : undefined,
+            stopped: !!handle.stopped,
+            planeA: handle.clippingPlaneA ? Array.from(handle.clippingPlaneA as number[]) : undefined,
+            planeB: handle.clippingPlaneB ? Array.from(handle.clippingPlaneB as number[]) : undefined
+        }))
+    };
+}
+
+function restoreViewerState(viewer: XbimViewer, snapshot: ViewerStateSnapshot): void {
+    const viewerAny = viewer as any;
+    const handles: any[] = viewerAny._handles ?? [];
+    const modelIds = new Set(handles.map(h => h.id));
+
+    // Products of models unloaded since the snapshot are skipped
+    const byModel = (products: Array<{ id: number, model: number }>) => {
+        const result = new Map<number, number[]>();
+        for (const p of products) {
+            if (!modelIds.has(p.model)) continue;
+            if (!result.has(p.model)) result.set(p.model, []);
+            result.get(p.model)!.push(p.id);
+        }
+        return result;
+    };
+
+    byModel(viewer.getProductsWithState(State.HIDDEN)).forEach((ids, modelId) => viewer.removeState(State.HIDDEN, ids, modelId));
+    byModel(viewer.getProductsWithState(State.HIGHLIGHTED)).forEach((ids, modelId) => viewer.removeState(State.HIGHLIGHTED, ids, modelId));
+    byModel(snapshot.hidden).forEach((ids, modelId) => viewer.setState(State.HIDDEN, ids, modelId));
+    byModel(snapshot.highlighted).forEach((ids, modelId) => viewer.setState(State.HIGHLIGHTED, ids, modelId));
+
+    for (const handle of handles) {
+        // Models loaded after the snapshot keep their current state
+        const saved = snapshot.handles.find(h => h.id === handle.id);
+        if (!saved) continue;
+
+        handle.isolatedProducts = saved.isolated;
+        handle.clippingPlaneA = saved.planeA;
+        handle.clippingPlaneB = saved.planeB;
+        // Models stopped by a change, e.g. a comparison version without shown products
+        if (saved.stopped === true && !handle.stopped) {
+            viewer.stop(handle.id);
+        } else if (saved.stopped === false && handle.stopped) {
+            viewer.start(handle.id);
+        }
+    }
+
+    viewer.draw();
+}
+
+// Undo the last selection, visibility or clipping change
+export function undo(viewerId: string): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        const result = getViewerSession(viewerId).undo(viewer);
+        syncLinkedViewers(viewerId, viewer);
+        return result;
+    } catch (error) {
+        console.error('Error undoing change:', error);
+        return false;
+    }
+}
+
+// Redo the last undone change
+export function redo(viewerId: string): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        const result = getViewerSession(viewerId).redo(viewer);
+        syncLinkedViewers(viewerId, viewer);
+        return result;
+    } catch (error) {
+        console.error('Error redoing change:', error);
+        return false;
+    }
+}
+
+// Check if there is a change to undo
+export function canUndo(viewerId: string): boolean {
+    return viewerSessions.get(viewerId)?.canUndo ?? false;
+}
+
+// Check if there is an undone change to redo
+export function canRedo(viewerId: string): boolean {
+    return viewerSessions.get(viewerId)?.canRedo ?? false;
+}
+
+// Clear the undo/redo history
+export function clearHistory(viewerId: string): boolean {
+    viewerSessions.get(viewerId)?.clear();
+    return true;
+}
+
+// ============================================================
+// Measurement
+// ============================================================
+
+type SnapType = 'none' | 'corner' | 'edge';
+
+// A measured point in model coordinates (WCS included) with the product it was picked on
+interface MeasurementPoint {
+    xyz: number[];
+    productId: number | null;
+    modelId: number | null;
+    snap: SnapType;
+}
+
+interface MeasurementItem {
+    id: string;
+    start: MeasurementPoint;
+    end: MeasurementPoint;
+    meter: number;
+}
+
+interface MeasurementOptions {
+    snapMode?: 'none' | 'corners' | 'edges';
+    snapTolerance?: number;
+    precision?: number;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const MEASUREMENT_COLOR = 'var(--Xbim-accent-primary, #0d6efd)';
+let measurementIdCounter = 0;
+
+// Point-to-point distance measurement. Registered as a viewer plugin so the
+// dimension lines and labels follow the camera after every draw.
+class MeasurementTool {
+    private viewer: XbimViewer | null = null;
+    private overlay: HTMLDivElement | null = null;
+    private svg: SVGSVGElement | null = null;
+    private measurements: MeasurementItem[] = [];
+    private pending: MeasurementPoint | null = null;
+    private preview: MeasurementPoint | null = null;
+    private options: Required<MeasurementOptions> = { snapMode: 'edges', snapTolerance: 12, precision: 3 };
+    private dotNetHelper: any = null;
+    private pickHandler: ((args: any) => void) | null = null;
+    private moveHandler: ((event: MouseEvent) => void) | null = null;
+    private keyHandler: ((event: KeyboardEvent) => void) | null = null;
+    private moveFrame = 0;
+
+    get active(): boolean {
+        return this.pickHandler !== null;
+    }
+
+    init(viewer: XbimViewer): void {
+        this.viewer = viewer;
+        const parent = viewer.canvas.parentElement;
+        if (!parent) {
+            return;
+        }
+
+        this.overlay = document.createElement('div');
+        this.overlay.className = 'xbim-measurement-overlay';
+        this.overlay.style.cssText = 'position: absolute; inset: 0; pointer-events: none; overflow: hidden;';
+        this.svg = document.createElementNS(SVG_NS, 'svg');
+        this.svg.setAttribute('width', '100%');
+        this.svg.setAttribute('height', '100%');
+        this.svg.style.cssText = 'position: absolute; inset: 0;';
+        this.overlay.appendChild(this.svg);
+        parent.appendChild(this.overlay);
+    }
+
+    onBeforeDraw(): void { }
+    onAfterDraw(): void {
+        this.render();
+    }
+    onBeforeDrawId(): void { }
+    onAfterDrawId(): void { }
+    onAfterDrawModelId(): void { }
+
+    start(options: MeasurementOptions | undefined, dotNetHelper: any): void {
+        const viewer = this.viewer;
+        if (!viewer) {
+            return;
+        }
+
+        this.stop();
+        this.options = { ...this.options, ...(options ?? {}) };
+        this.dotNetHelper = dotNetHelper;
+
+        this.pickHandler = (args: any) => {
+            const point = this.getPoint(args?.id, args?.model, args?.xyz);
+            if (point) {
+                this.addPoint(point);
+            }
+        };
+        this.moveHandler = (event: MouseEvent) => {
+            if (!this.pending || this.moveFrame) {
+                return;
+            }
+            this.moveFrame = requestAnimationFrame(() => {
+                this.moveFrame = 0;
+                const rect = viewer.canvas.getBoundingClientRect();
+                const data = viewer.getEventData(event.clientX - rect.left, viewer.height - (event.clientY - rect.top));
+                this.preview = this.getPoint(data?.id, data?.model, data?.xyz);
+                this.render();
+            });
+        };
+        this.keyHandler = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                this.cancelPending();
+            }
+        };
+
+        viewer.on('pick', this.pickHandler);
+        viewer.canvas.addEventListener('mousemove', this.moveHandler);
+        window.addEventListener('keydown', this.keyHandler);
+    }
+
+    stop(): void {
+        const viewer = this.viewer;
+        if (viewer && this.pickHandler) {
+            viewer.off('pick', this.pickHandler);
+        }
+        if (viewer && this.moveHandler) {
+            viewer.canvas.removeEventListener('mousemove', this.moveHandler);
+        }
+        if (this.keyHandler) {
+            window.removeEventListener('keydown', this.keyHandler);
+        }
+        if (this.moveFrame) {
+            cancelAnimationFrame(this.moveFrame);
+            this.moveFrame = 0;
+        }
+        this.pickHandler = null;
+        this.moveHandler = null;
+        this.keyHandler = null;
+        this.dotNetHelper = null;
+        this.cancelPending();
+    }
+
+    dispose(): void {
+        this.stop();
+        this.overlay?.remove();
+        this.overlay = null;
+        this.svg = null;
+    }
+
+    list(): any[] {
+        return this.measurements.map(m => this.toResult(m));
+    }
+
+    remove(id: string): boolean {
+        const index = this.measurements.findIndex(m => m.id === id);
+        if (index < 0) {
+            return false;
+        }
+        this.measurements.splice(index, 1);
+        this.render();
+        return true;
+    }
+
+    clear(): void {
+        this.measurements = [];
+        this.cancelPending();
+    }
+
+    private cancelPending(): void {
+        this.pending = null;
+        this.preview = null;
+        this.render();
+    }
+
+    private addPoint(point: MeasurementPoint): void {
+        if (!this.pending) {
+            this.pending = point;
+            this.preview = null;
+            this.render();
+            return;
+        }
+
+        const measurement: MeasurementItem = {
+            id: `measurement-${++measurementIdCounter}`,
+            start: this.pending,
+            end: point,
+            meter: this.getMeter(this.pending.modelId)
+        };
+        this.measurements.push(measurement);
+        this.pending = null;
+        this.preview = null;
+        this.render();
+
+        this.dotNetHelper?.invokeMethodAsync('OnMeasurementCompleted', this.toResult(measurement));
+    }
+
+    // Units per meter of the model the point was picked on
+    private getMeter(modelId: number | null): number {
+        const viewerAny = this.viewer as any;
+        const handle = (viewerAny?._handles ?? []).find((h: any) => h.id === modelId);
+        return handle?.meter || viewerAny?.unitsInMeter || 1;
+    }
+
+    // Convert an event location (relative to the current WCS) to a snapped point in model coordinates
+    private getPoint(productId: number | null | undefined, modelId: number | null | undefined, xyz: ArrayLike<number> | null | undefined): MeasurementPoint | null {
+        const viewer = this.viewer;
+        if (!viewer || !xyz) {
+            return null;
+        }
+
+        const wcs = viewer.getCurrentWcs();
+        const raw = [xyz[0] + wcs[0], xyz[1] + wcs[1], xyz[2] + wcs[2]];
+        const point: MeasurementPoint = { xyz: raw, productId: productId ?? null, modelId: modelId ?? null, snap: 'none' };
+        if (this.options.snapMode === 'none' || productId == null || modelId == null) {
+            return point;
+        }
+
+        let bbox: ArrayLike<number> | undefined;
+        try {
+            bbox = viewer.getProductBoundingBox(productId, modelId);
+        } catch (e) {
+            bbox = undefined;
+        }
+        if (!bbox) {
+            return point;
+        }
+
+        const screen = this.project(raw);
+        if (!screen) {
+            return point;
+        }
+
+        const [x, y, z, sx, sy, sz] = Array.from(bbox);
+        const corners: number[][] = [];
+        for (const cx of [x, x + sx]) {
+            for (const cy of [y, y + sy]) {
+                for (const cz of [z, z + sz]) {
+                    corners.push([cx, cy, cz]);
+                }
+            }
+        }
+
+        const tolerance = this.options.snapTolerance;
+        const nearest = (candidates: number[][]) => {
+            let best: number[] | null = null;
+            let bestDistance = tolerance;
+            for (const candidate of candidates) {
+                const projected = this.project(candidate);
+                if (!projected) continue;
+                const distance = Math.hypot(projected[0] - screen[0], projected[1] - screen[1]);
+                if (distance <= bestDistance) {
+                    best = candidate;
+                    bestDistance = distance;
+                }
+            }
+            return best;
+        };
+
+        const corner = nearest(corners);
+        if (corner) {
+            return { ...point, xyz: corner, snap: 'corner' };
+        }
+
+        if (this.options.snapMode === 'edges') {
+            // Corners differing in exactly one coordinate form the 12 box edges
+            const edgePoints: number[][] = [];
+            for (let i = 0; i < corners.length; i++) {
+                for (let j = i + 1; j < corners.length; j++) {
+                    const differences = [0, 1, 2].filter(k => corners[i][k] !== corners[j][k]).length;
+                    if (differences === 1) {
+                        edgePoints.push(closestPointOnSegment(raw, corners[i], corners[j]));
+                    }
+                }
+            }
+            const edge = nearest(edgePoints);
+            if (edge) {
+                return { ...point, xyz: edge, snap: 'edge' };
+            }
+        }
+
+        return point;
+    }
+
+    // Canvas position of a point in model coordinates, or null when it is behind the camera
+    private project(xyz: number[]): number[] | null {
+        const viewer = this.viewer;
+        if (!viewer) {
+            return null;
+        }
+
+        const wcs = viewer.getCurrentWcs();
+        const local = [xyz[0] - wcs[0], xyz[1] - wcs[1], xyz[2] - wcs[2]];
+        const mv = viewer.mvMatrix;
+        const eyeZ = mv[2] * local[0] + mv[6] * local[1] + mv[10] * local[2] + mv[14];
+        if (eyeZ >= 0) {
+            return null;
+        }
+
+        const coordinates = viewer.getHtmlCoordinatesOfVector(local as any);
+        return coordinates.length === 2 && isFinite(coordinates[0]) && isFinite(coordinates[1]) ? coordinates : null;
+    }
+
+    private render(): void {
+        const svg = this.svg;
+        const overlay = this.overlay;
+        if (!svg || !overlay) {
+            return;
+        }
+
+        while (svg.firstChild) {
+            svg.removeChild(svg.firstChild);
+        }
+        overlay.querySelectorAll('.xbim-measurement-label').forEach(label => label.remove());
+
+        for (const measurement of this.measurements) {
+            this.renderDimension(measurement.start, measurement.end, this.formatDistance(measurement));
+        }
+
+        if (this.pending) {
+            this.renderMarker(this.pending);
+            if (this.preview) {
+                const meter = this.getMeter(this.pending.modelId);
+                this.renderDimension(this.pending, this.preview, this.formatDistance({ id: '', start: this.pending, end: this.preview, meter }), true);
+                this.renderMarker(this.preview);
+            }
+        }
+    }
+
+    private renderDimension(start: MeasurementPoint, end: MeasurementPoint, text: string, isPreview = false): void {
+        const a = this.project(start.xyz);
+        const b = this.project(end.xyz);
+        if (!a || !b || !this.svg || !this.overlay) {
+            return;
+        }
+
+        const line = document.createElementNS(SVG_NS, 'line');
+        line.setAttribute('x1', `${a[0]}`);
+        line.setAttribute('y1', `${a[1]}`);
+        line.setAttribute('x2', `${b[0]}`);
+        line.setAttribute('y2', `${b[1]}`);
+        line.setAttribute('stroke-width', '2');
+        line.style.stroke = MEASUREMENT_COLOR;
+        if (isPreview) {
+            line.setAttribute('stroke-dasharray', '6 4');
+        }
+        this.svg.appendChild(line);
+
+        // End ticks perpendicular to the dimension line
+        const length = Math.hypot(b[0] - a[0], b[1] - a[1]) || 1;
+        const nx = -(b[1] - a[1]) / length * 6;
+        const ny = (b[0] - a[0]) / length * 6;
+        for (const p of [a, b]) {
+            const tick = document.createElementNS(SVG_NS, 'line');
+            tick.setAttribute('x1', `${p[0] - nx}`);
+            tick.setAttribute('y1', `${p[1] - ny}`);
+            tick.setAttribute('x2', `${p[0] + nx}`);
+            tick.setAttribute('y2', `${p[1] + ny}`);
+            tick.setAttribute('stroke-width', '2');
+            tick.style.stroke = MEASUREMENT_COLOR;
+            this.svg.appendChild(tick);
+        }
+
+        const label = document.createElement('div');
+        label.className = 'xbim-measurement-label';
+        label.textContent = text;
+        label.style.cssText =
+            'position: absolute; transform: translate(-50%, -50%); padding: 2px 6px; border-radius: 4px; ' +
+            `font-size: 12px; white-space: nowrap; color: #fff; background: ${MEASUREMENT_COLOR};`;
+        label.style.left = `${(a[0] + b[0]) / 2}px`;
+        label.style.top = `${(a[1] + b[1]) / 2}px`;
+        this.overlay.appendChild(label);
+    }
+
+    private renderMarker(point: MeasurementPoint): void {
+        const p = this.project(point.xyz);
+        if (!p || !this.svg) {
+            return;
+        }
+
+        // Squares mark corners, diamonds edges and circles free points
+        const marker = point.snap === 'none'
+            ? document.createElementNS(SVG_NS, 'circle')
+            : document.createElementNS(SVG_NS, 'rect');
+        if (point.snap === 'none') {
+            marker.setAttribute('cx', `${p[0]}`);
+            marker.setAttribute('cy', `${p[1]}`);
+            marker.setAttribute('r', '4');
+        } else {
+            marker.setAttribute('x', `${p[0] - 5}`);
+            marker.setAttribute('y', `${p[1] - 5}`);
+            marker.setAttribute('width', '10');
+            marker.setAttribute('height', '10');
+            if (point.snap === 'edge') {
+                marker.setAttribute('transform', `rotate(45 ${p[0]} ${p[1]})`);
+            }
+        }
+        marker.setAttribute('fill', 'none');
+        marker.setAttribute('stroke-width', '2');
+        marker.style.stroke = MEASUREMENT_COLOR;
+        this.svg.appendChild(marker);
+    }
+
+    private getDistance(measurement: MeasurementItem): number {
+        const [a, b] = [measurement.start.xyz, measurement.end.xyz];
+        return Math.hypot(b[0] - a[0], b[1] - a[1], b[2] - a[2]);
+    }
+
+    private formatDistance(measurement: MeasurementItem): string {
+        return `${(this.getDistance(measurement) / measurement.meter).toFixed(this.options.precision)} m`;
+    }
+
+    // Measurement as exchanged with .NET; lengths and coordinates in meters
+    private toResult(measurement: MeasurementItem): any {
+        const toPoint = (point: MeasurementPoint) => ({
+            x: point.xyz[0] / measurement.meter,
+            y: point.xyz[1] / measurement.meter,
+            z: point.xyz[2] / measurement.meter,
+            productId: point.productId,
+            modelId: point.modelId,
+            snap: point.snap
+        });
+
+        return {
+            id: measurement.id,
+            start: toPoint(measurement.start),
+            end: toPoint(measurement.end),
+            distance: this.getDistance(measurement) / measurement.meter
+        };
+    }
+}
+
+function closestPointOnSegment(p: number[], a: number[], b: number[]): number[] {
+    const ab = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const lengthSquared = ab[0] * ab[0] + ab[1] * ab[1] + ab[2] * ab[2];
+    if (lengthSquared === 0) {
+        return a;
+    }
+    const t = Math.max(0, Math.min(1, ((p[0] - a[0]) * ab[0] + (p[1] - a[1]) * ab[1] + (p[2] - a[2]) * ab[2]) / lengthSquared));
+    return [a[0] + ab[0] * t, a[1] + ab[1] * t, a[2] + ab[2] * t];
+}
+
+const measurementTools = new Map<string, MeasurementTool>(); // viewerId -> measurement tool
+
+function getMeasurementTool(viewerId: string, viewer: XbimViewer): MeasurementTool {
+    let tool = measurementTools.get(viewerId);
+    if (!tool) {
+        tool = new MeasurementTool();
+        viewer.addPlugin(tool as any);
+        measurementTools.set(viewerId, tool);
+    }
+    return tool;
+}
+
+// Start measuring: every two picked points create a measurement reported to .NET via OnMeasurementCompleted
+export function startMeasurement(viewerId: string, options: MeasurementOptions | undefined, dotNetHelper: any): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        getMeasurementTool(viewerId, viewer).start(options, dotNetHelper);
+        return true;
+    } catch (error) {
+        console.error('Error starting measurement:', error);
+        return false;
+    }
+}
+
+// Stop measuring; existing measurements stay visible
+export function stopMeasurement(viewerId: string): boolean {
+    try {
+        measurementTools.get(viewerId)?.stop();
+        return true;
+    } catch (error) {
+        console.error('Error stopping measurement:', error);
+        return false;
+    }
+}
+
+// Get all measurements (lengths and coordinates in meters)
+export function getMeasurements(viewerId: string): any[] {
+    try {
+        return measurementTools.get(viewerId)?.list() ?? [];
+    } catch (error) {
+        console.error('Error getting measurements:', error);
+        return [];
+    }
+}
+
+// Remove a single measurement
+export function removeMeasurement(viewerId: string, measurementId: string): boolean {
+    try {
+        return measurementTools.get(viewerId)?.remove(measurementId) ?? false;
+    } catch (error) {
+        console.error('Error removing measurement:', error);
+        return false;
+    }
+}
+
+// Remove all measurements
+export function clearMeasurements(viewerId: string): boolean {
+    try {
+        measurementTools.get(viewerId)?.clear();
+        return true;
+    } catch (error) {
+        console.error('Error clearing measurements:', error);
+        return false;
+    }
+}
+
+// ============================================================
+// Saved Views
+// ============================================================
+
+// Per-model part of a saved view. Styles use the compact form of getModelState
+// ([productId, state + (style << 8)]) and only contain styled products.
+interface SavedViewModel {
+    modelId: number;
+    styles: number[][];
+    hidden: number[];
+    highlighted: number[];
+    isolated?: number[] | null;
+    clippingPlaneA?: number[] | null;
+    clippingPlaneB?: number[] | null;
+}
+
+interface SavedViewSectionBox {
+    location: number[];
+    lengthX: number;
+    lengthY: number;
+    lengthZ: number;
+    rotationX: number;
+    rotationY: number;
+    rotationZ: number;
+}
+
+interface SavedViewState {
+    camera: CameraState | null;
+    models: SavedViewModel[];
+    sectionBox: SavedViewSectionBox | null;
+    thumbnail: string | null;
+}
+
+// Capture everything needed to reproduce the current view, with a JPEG thumbnail
+// of the given width (0 to skip the thumbnail)
+export function captureSavedView(viewerId: string, thumbnailWidth: number = 240): SavedViewState | null {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return null;
+        }
+
+        const viewerAny = viewer as any;
+        const hidden = viewer.getProductsWithState(State.HIDDEN) ?? [];
+        const highlighted = viewer.getProductsWithState(State.HIGHLIGHTED) ?? [];
+        const ofModel = (products: Array<{ id: number, model: number }>, modelId: number) =>
+            products.filter(p => p.model === modelId).map(p => p.id);
+
+        const models: SavedViewModel[] = (viewerAny._handles ?? []).map((handle: any) => ({
+            modelId: handle.id,
+            styles: viewer.getModelState(handle.id).filter(s => (s[1] >> 8) !== State.UNSTYLED),
+            hidden: ofModel(hidden, handle.id),
+            highlighted: ofModel(highlighted, handle.id),
+            isolated: handle.isolatedProducts ? Array.from(handle.isolatedProducts as number[]) : null,
+            clippingPlaneA: handle.clippingPlaneA ? Array.from(handle.clippingPlaneA as number[]) : null,
+            clippingPlaneB: handle.clippingPlaneB ? Array.from(handle.clippingPlaneB as number[]) : null
+        }));
+
+        const box = viewer.sectionBox;
+        const sectionBox = box.isSet
+            ? {
+                location: Array.from(box.location as ArrayLike<number>),
+                lengthX: box.lengthX,
+                lengthY: box.lengthY,
+                lengthZ: box.lengthZ,
+                rotationX: box.rotationX,
+                rotationY: box.rotationY,
+                rotationZ: box.rotationZ
+            }
+            : null;
+
+        let thumbnail: string | null = null;
+        if (thumbnailWidth > 0 && viewer.width > 0 && viewer.height > 0) {
+            const thumbnailHeight = Math.max(1, Math.round(thumbnailWidth * viewer.height / viewer.width));
+            thumbnail = viewer.getCurrentImageDataUrl(thumbnailWidth, thumbnailHeight, 'jpeg');
+        }
+
+        return { camera: getCamera(viewerId), models, sectionBox, thumbnail };
+    } catch (error) {
+        console.error('Error capturing saved view:', error);
+        return null;
+    }
+}
+
+// Apply a saved view. Model ids must match the loaded models; other models are left unchanged.
+export async function applySavedView(viewerId: string, view: SavedViewState, duration: number = 0): Promise<boolean> {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        const viewerAny = viewer as any;
+        const modelIds = new Set<number>((viewerAny._handles ?? []).map((h: any) => h.id));
+        const models = (view.models ?? []).filter(m => modelIds.has(m.modelId));
+
+        // Styles are not part of the undo history, so apply them first
+        for (const model of models) {
+            viewer.resetStyles(model.modelId);
+            viewer.restoreModelState(model.modelId, model.styles ?? []);
+        }
+
+        // Selection, visibility and clipping are recorded as a single undo step
+        const snapshot = captureViewerState(viewer);
+        const merge = (current: Array<{ id: number, model: number }>, key: 'hidden' | 'highlighted') => {
+            // Products of models which are not part of the view keep their state
+            const result = current.filter(p => !models.some(m => m.modelId === p.model));
+            for (const model of models) {
+                for (const id of model[key] ?? []) {
+                    result.push({ id, model: model.modelId });
+                }
+            }
+            return result;
+        };
+        recordViewerChange(viewerId, viewer, () => restoreViewerState(viewer, {
+            hidden: merge(snapshot.hidden, 'hidden'),
+            highlighted: merge(snapshot.highlighted, 'highlighted'),
+            handles: models.map(m => ({
+                id: m.modelId,
+                isolated: m.isolated ?? undefined,
+                planeA: m.clippingPlaneA ?? undefined,
+                planeB: m.clippingPlaneB ?? undefined
+            }))
+        }));
+
+        const box = view.sectionBox;
+        if (box && box.location?.length === 3) {
+            viewer.sectionBox.location = new Float32Array(box.location) as any;
+            viewer.sectionBox.lengthX = box.lengthX;
+            viewer.sectionBox.lengthY = box.lengthY;
+            viewer.sectionBox.lengthZ = box.lengthZ;
+            viewer.sectionBox.rotationX = box.rotationX;
+            viewer.sectionBox.rotationY = box.rotationY;
+            viewer.sectionBox.rotationZ = box.rotationZ;
+        } else {
+            viewer.sectionBox.clear();
+        }
+
+        viewer.draw();
+
+        if (view.camera) {
+            return await setCamera(viewerId, view.camera, duration);
+        }
+        return true;
+    } catch (error) {
+        console.error('Error applying saved view:', error);
+        return false;
+    }
+}
+
+// ============================================================
+// Image Capture
+// ============================================================
+
+declare const DotNet: { createJSStreamReference(data: Blob | ArrayBuffer | ArrayBufferView): any };
+
+interface CaptureImageOptions {
+    width?: number | null;
+    height?: number | null;
+    format?: 'png' | 'jpeg' | 'webp';
+    quality?: number | null;
+    transparent?: boolean;
+    background?: number[] | null; // RGBA of an opaque image, defaults to the viewer background
+    includePlugins?: boolean;
+}
+
+// Render the view offscreen at the requested resolution (independent of the canvas size)
+// and return the encoded image as a stream reference, so large images are not sent as data URLs.
+// getCurrentImageBlob only encodes the canvas at its current size, so the library's offscreen
+// framebuffer is encoded to a Blob the same way instead.
+export async function captureImage(viewerId: string, options?: CaptureImageOptions): Promise<any | null> {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return null;
+        }
+
+        const viewerAny = viewer as any;
+        const aspect = viewer.width > 0 && viewer.height > 0 ? viewer.width / viewer.height : 1;
+        let width = Math.round(options?.width || 0);
+        let height = Math.round(options?.height || 0);
+        if (width <= 0 && height <= 0) {
+            width = viewer.width;
+            height = viewer.height;
+        } else if (width <= 0) {
+            width = Math.round(height * aspect);
+        } else if (height <= 0) {
+            height = Math.round(width / aspect);
+        }
+
+        const gl = viewerAny.gl as WebGLRenderingContext;
+        const maxSize = Math.min(gl.getParameter(gl.MAX_RENDERBUFFER_SIZE), gl.getParameter(gl.MAX_TEXTURE_SIZE));
+        if (width <= 0 || height <= 0 || width > maxSize || height > maxSize) {
+            console.error(`Image size ${width}x${height} is not supported (maximum ${maxSize}x${maxSize})`);
+            return null;
+        }
+
+        const format = options?.format ?? 'png';
+        // JPEG has no alpha channel
+        const transparent = (options?.transparent ?? false) && format !== 'jpeg';
+
+        // Navigation cube and grid are not part of the model, so they can be left out
+        const win = window as any;
+        const excludedTypes = options?.includePlugins === false
+            ? ['NavigationCube', 'Grid'].map(t => win[t] ?? win.xbim?.[t]).filter(t => !!t)
+            : [];
+        const stoppedPlugins = (viewerAny._plugins ?? [])
+            .filter((p: any) => !p.stopped && excludedTypes.some(t => p instanceof t));
+
+        // initViewer leaves the canvas background transparent, so opaque images need their own
+        const background = viewer.background;
+        const fill = options?.background ?? background;
+        let pixels: Uint8ClampedArray | null;
+        try {
+            stoppedPlugins.forEach((p: any) => p.stopped = true);
+            viewer.background = transparent
+                ? [background[0], background[1], background[2], 0]
+                : [fill[0], fill[1], fill[2], 255];
+            pixels = viewer.getCurrentImageDataArray(width, height);
+        } finally {
+            stoppedPlugins.forEach((p: any) => p.stopped = false);
+            viewer.background = background;
+            // Drawing offscreen changes the projection, so redraw the canvas right away
+            viewer.draw();
+        }
+
+        if (!pixels) {
+            console.error('Could not render image');
+            return null;
+        }
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const context = canvas.getContext('2d')!;
+        const imageData = context.createImageData(width, height);
+        imageData.data.set(pixels);
+        context.putImageData(imageData, 0, 0);
+        if (!transparent) {
+            // Blended transparent products can still leave translucent pixels behind
+            context.globalCompositeOperation = 'destination-over';
+            context.fillStyle = `rgb(${fill[0]}, ${fill[1]}, ${fill[2]})`;
+            context.fillRect(0, 0, width, height);
+        }
+
+        const quality = options?.quality ?? undefined;
+        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, `image/${format}`, quality));
+        if (!blob) {
+            console.error(`Could not encode image as ${format}`);
+            return null;
+        }
+
+        return DotNet.createJSStreamReference(blob);
+    } catch (error) {
+        console.error('Error capturing image:', error);
+        return null;
+    }
+}
+
+// ============================================================
+// Clipping Planes
+// ============================================================
+
+// Clipping planes of a model as [a, b, c, d] plane equations in model coordinates
+interface ClippingPlaneState {
+    modelId: number;
+    planeA: number[] | null;
+    planeB: number[] | null;
+}
+
+// Per-viewer clipping settings
+interface ClippingSettings {
+    modelIds: number[] | null; // models the interactive clipping plane applies to, null for all
+    dotNetHelper: any;
+    notifyTimer: number;
+    pickHandler: ((args: any) => void) | null;
+}
+
+const clippingSettings = new Map<string, ClippingSettings>(); // viewerId -> clipping settings
+
+function getClippingSettings(viewerId: string): ClippingSettings {
+    let settings = clippingSettings.get(viewerId);
+    if (!settings) {
+        settings = { modelIds: null, dotNetHelper: null, notifyTimer: 0, pickHandler: null };
+        clippingSettings.set(viewerId, settings);
+    }
+    return settings;
+}
+
+function isClippingPlanePlugin(plugin: any): boolean {
+    return typeof plugin?.getPlaneEquation === 'function' && typeof plugin?.applyCurrentPlane === 'function';
+}
+
+function getClippingPlanePlugins(viewerId: string): any[] {
+    const plugins = pluginInstances.get(viewerId);
+    return plugins ? Array.from(plugins.values()).filter(isClippingPlanePlugin) : [];
+}
+
+// Handles of the given models, or of all models if no IDs are given
+// Models which are not clippable are never cut by clipping planes or storey plans
+function getClippingHandles(viewer: XbimViewer, modelIds?: number[] | null): any[] {
+    const handles: any[] = ((viewer as any)._handles ?? []).filter((h: any) => h.clippable);
+    return modelIds ? handles.filter(h => modelIds.indexOf(h.id) !== -1) : handles;
+}
+
+function getClippingPlaneStates(viewer: XbimViewer): ClippingPlaneState[] {
+    return ((viewer as any)._handles ?? []).map((handle: any) => ({
+        modelId: handle.id,
+        planeA: handle.clippingPlaneA ? Array.from(handle.clippingPlaneA as number[]) : null,
+        planeB: handle.clippingPlaneB ? Array.from(handle.clippingPlaneB as number[]) : null
+    }));
+}
+
+// Move the 3D controls of visible clipping plane plugins to the current plane
+function refreshClippingPlanePlugins(viewerId: string): void {
+    for (const plugin of getClippingPlanePlugins(viewerId)) {
+        if (!plugin.stopped) {
+            plugin.updateTransformationFromPlane();
+        }
+    }
+}
+
+// The plugin clips all models with its plane. Replace it on the instance so that only
+// the selected models are clipped and .NET is told about planes moved with the control.
+function patchClippingPlanePlugin(viewerId: string, plugin: any): void {
+    plugin.applyCurrentPlane = function (this: any) {
+        const viewer: XbimViewer | null = this.viewer;
+        if (!viewer || this.stopped || viewer.plugins.indexOf(this) === -1 || viewer.activeHandles.length === 0) {
+            return;
+        }
+
+        const plane = this.getPlaneEquation();
+        for (const handle of getClippingHandles(viewer, clippingSettings.get(viewerId)?.modelIds)) {
+            handle.clippingPlaneA = plane;
+        }
+        notifyClippingPlaneChanged(viewerId, viewer);
+    };
+}
+
+// The control applies its plane on every pointer move, so changes are reported once dragging pauses
+function notifyClippingPlaneChanged(viewerId: string, viewer: XbimViewer): void {
+    const settings = clippingSettings.get(viewerId);
+    if (!settings?.dotNetHelper) {
+        return;
+    }
+
+    clearTimeout(settings.notifyTimer);
+    settings.notifyTimer = window.setTimeout(() => {
+        settings.notifyTimer = 0;
+        settings.dotNetHelper?.invokeMethodAsync('OnClippingPlaneMoved', getClippingPlaneStates(viewer));
+    }, 150);
+}
+
+// Estimate the normal of the face under the pointer from the depth of neighbouring pixels.
+// The normal points away from the camera.
+function getPickedFaceNormal(viewer: XbimViewer, event: MouseEvent | Touch | undefined, productId: number, modelId: number, xyz: ArrayLike<number>): number[] | null {
+    if (!event) {
+        return null;
+    }
+
+    const rect = viewer.canvas.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const y = viewer.height - (event.clientY - rect.top);
+    const direction = viewer.getCameraDirection() as ArrayLike<number>;
+    const offset = 3;
+    const pairs = [[offset, 0, 0, offset], [0, -offset, offset, 0], [-offset, 0, 0, -offset], [0, offset, -offset, 0]];
+
+    for (const [ax, ay, bx, by] of pairs) {
+        const a = viewer.getEventData(x + ax, y + ay);
+        const b = viewer.getEventData(x + bx, y + by);
+        // Both neighbours must be on the same product, otherwise they are likely on another face
+        if (!a?.xyz || !b?.xyz || a.id !== productId || b.id !== productId || a.model !== modelId || b.model !== modelId) {
+            continue;
+        }
+
+        const u = [a.xyz[0] - xyz[0], a.xyz[1] - xyz[1], a.xyz[2] - xyz[2]];
+        const v = [b.xyz[0] - xyz[0], b.xyz[1] - xyz[1], b.xyz[2] - xyz[2]];
+        const n = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+        const length = Math.sqrt(n[0] * n[0] + n[1] * n[1] + n[2] * n[2]);
+        if (length < 1e-9) {
+            continue;
+        }
+
+        const sign = n[0] * direction[0] + n[1] * direction[1] + n[2] * direction[2] < 0 ? -1 : 1;
+        return n.map(c => sign * c / length);
+    }
+
+    return null;
+}
+
+// Clip models with plane A through a point (model coordinates). The normal points to the half space which stays visible.
+export function clip(viewerId: string, point: number[], normal: number[], modelIds?: number[] | null): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        if (!point || !normal || (normal[0] === 0 && normal[1] === 0 && normal[2] === 0)) {
+            console.error('Clipping plane is not well defined');
+            return false;
+        }
+
+        const plane = [normal[0], normal[1], normal[2], -(normal[0] * point[0] + normal[1] * point[1] + normal[2] * point[2])];
+        recordViewerChange(viewerId, viewer, () => {
+            for (const handle of getClippingHandles(viewer, modelIds)) {
+                handle.clippingPlaneA = plane;
+                handle.clippingPlaneB = null;
+            }
+        });
+        refreshClippingPlanePlugins(viewerId);
+        viewer.draw();
+        return true;
+    } catch (error) {
+        console.error('Error clipping viewer:', error);
+        return false;
+    }
+}
+
+// Set or clear (plane = null) clipping plane A or B of the given models or of all models
+export function setClippingPlane(viewerId: string, plane: number[] | null, which: 'A' | 'B', modelIds?: number[] | null): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        recordViewerChange(viewerId, viewer, () => {
+            for (const handle of getClippingHandles(viewer, modelIds)) {
+                if (which === 'B') {
+                    handle.clippingPlaneB = plane;
+                } else {
+                    handle.clippingPlaneA = plane;
+                }
+            }
+        });
+        refreshClippingPlanePlugins(viewerId);
+        viewer.draw();
+        return true;
+    } catch (error) {
+        console.error('Error setting clipping plane:', error);
+        return false;
+    }
+}
+
+// Get the clipping planes of every loaded model
+export function getClippingPlanes(viewerId: string): ClippingPlaneState[] {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return [];
+        }
+
+        return getClippingPlaneStates(viewer);
+    } catch (error) {
+        console.error('Error getting clipping planes:', error);
+        return [];
+    }
+}
+
+// Limit the interactive clipping plane to the given models (null for all models)
+export function setClippingPlaneModels(viewerId: string, modelIds: number[] | null): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        getClippingSettings(viewerId).modelIds = modelIds;
+
+        const plugins = getClippingPlanePlugins(viewerId).filter(p => !p.stopped);
+        if (plugins.length > 0) {
+            recordViewerChange(viewerId, viewer, () => {
+                // Models which are no longer selected lose the plane of the control
+                if (modelIds) {
+                    for (const handle of (viewer as any)._handles ?? []) {
+                        if (modelIds.indexOf(handle.id) === -1) {
+                            handle.clippingPlaneA = null;
+                        }
+                    }
+                }
+                plugins.forEach(p => p.applyCurrentPlane());
+            });
+            viewer.draw();
+        }
+        return true;
+    } catch (error) {
+        console.error('Error setting clipping plane models:', error);
+        return false;
+    }
+}
+
+// Report changes made with the interactive clipping plane to the OnClippingPlaneMoved method of the .NET object
+export function watchClippingPlanes(viewerId: string, dotNetHelper: any): boolean {
+    if (!viewerInstances.has(viewerId)) {
+        console.error(`Viewer with id ${viewerId} not found`);
+        return false;
+    }
+
+    getClippingSettings(viewerId).dotNetHelper = dotNetHelper;
+    return true;
+}
+
+// Clip at the face picked next. The plane lies on the face and hides everything in front of it.
+// Visible clipping plane controls are moved to the new plane so it can be dragged from there.
+export function startClippingPlanePick(viewerId: string, modelIds?: number[] | null): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        stopClippingPlanePick(viewerId);
+
+        const settings = getClippingSettings(viewerId);
+        settings.pickHandler = (args: any) => {
+            if (args?.id == null || args?.model == null || !args?.xyz) {
+                return;
+            }
+            stopClippingPlanePick(viewerId);
+
+            const wcs = viewer.getCurrentWcs() as ArrayLike<number>;
+            const direction = viewer.getCameraDirection() as ArrayLike<number>;
+            const normal = getPickedFaceNormal(viewer, args.event, args.id, args.model, args.xyz)
+                ?? [direction[0], direction[1], direction[2]];
+
+            // Keep the picked face itself visible by moving the plane 1 mm towards the camera
+            const handle = ((viewer as any)._handles ?? []).find((h: any) => h.id === args.model);
+            const offset = 0.001 * (handle?.meter || (viewer as any).unitsInMeter || 1);
+            const point = [0, 1, 2].map(i => args.xyz[i] + wcs[i] - normal[i] * offset);
+
+            clip(viewerId, point, normal, modelIds ?? settings.modelIds);
+            notifyClippingPlaneChanged(viewerId, viewer);
+        };
+        viewer.on('pick', settings.pickHandler);
+        return true;
+    } catch (error) {
+        console.error('Error starting clipping plane pick:', error);
+        return false;
+    }
+}
+
+// Cancel clipping at the next picked face
+export function stopClippingPlanePick(viewerId: string): boolean {
+    const viewer = viewerInstances.get(viewerId);
+    const settings = clippingSettings.get(viewerId);
+    if (!viewer || !settings?.pickHandler) {
+        return false;
+    }
+
+    viewer.off('pick', settings.pickHandler);
+    settings.pickHandler = null;
+    return true;
+}
+
+// ============================================================
+// Section Box
+// ============================================================
+
+// Section box in model coordinates. Rotations are in degrees. Bounds are the axis aligned
+// extents of the box and the planes face outwards in the order +X, -X, +Y, -Y, +Z, -Z.
+interface SectionBoxState extends SavedViewSectionBox {
+    min: number[];
+    max: number[];
+    planes: Array<{ location: number[], direction: number[] }>;
+}
+
+const sectionBoxWatchers = new Map<string, { dotNetHelper: any, notifyTimer: number }>(); // viewerId -> .NET listener
+
+function isSectionBoxPlugin(plugin: any): boolean {
+    return typeof plugin?.setClippingPlanes === 'function' && typeof plugin?.applySectionBox === 'function';
+}
+
+function getSectionBoxState(viewer: XbimViewer): SectionBoxState | null {
+    const box = viewer.sectionBox;
+    if (!box.isSet) {
+        return null;
+    }
+
+    // Vertices in model coordinates; bit 2 of the index is +X, bit 1 is +Y and bit 0 is +Z
+    const vertices = box.getVertices([0, 0, 0] as any).map(v => Array.from(v as ArrayLike<number>));
+    const average = (indices: number[]) => [0, 1, 2].map(i => indices.reduce((sum, index) => sum + vertices[index][i], 0) / indices.length);
+    const centre = average([0, 1, 2, 3, 4, 5, 6, 7]);
+    const faces = [[4, 5, 6, 7], [0, 1, 2, 3], [2, 3, 6, 7], [0, 1, 4, 5], [1, 3, 5, 7], [0, 2, 4, 6]];
+
+    return {
+        location: Array.from(box.location as ArrayLike<number>),
+        lengthX: box.lengthX,
+        lengthY: box.lengthY,
+        lengthZ: box.lengthZ,
+        rotationX: box.rotationX,
+        rotationY: box.rotationY,
+        rotationZ: box.rotationZ,
+        min: [0, 1, 2].map(i => Math.min(...vertices.map(v => v[i]))),
+        max: [0, 1, 2].map(i => Math.max(...vertices.map(v => v[i]))),
+        planes: faces.map(face => {
+            const location = average(face);
+            const d = [0, 1, 2].map(i => location[i] - centre[i]);
+            const length = Math.sqrt(d[0] * d[0] + d[1] * d[1] + d[2] * d[2]) || 1;
+            return { location, direction: d.map(c => c / length) };
+        })
+    };
+}
+
+// Set an axis aligned section box from [minX, minY, minZ, sizeX, sizeY, sizeZ] in model coordinates.
+// The box is set from its planes so that section box plugins can show and drag it.
+function setSectionBoxToBoundingBox(viewerId: string, viewer: XbimViewer, bbox: ArrayLike<number>): void {
+    const [x, y, z, sx, sy, sz] = Array.from(bbox);
+    const cx = x + sx / 2, cy = y + sy / 2, cz = z + sz / 2;
+    const planes: any[] = [
+        { direction: [0, 0, 1], location: [cx, cy, z + sz] },
+        { direction: [0, 0, -1], location: [cx, cy, z] },
+        { direction: [1, 0, 0], location: [x + sx, cy, cz] },
+        { direction: [-1, 0, 0], location: [x, cy, cz] },
+        { direction: [0, -1, 0], location: [cx, y, cz] },
+        { direction: [0, 1, 0], location: [cx, y + sy, cz] }
+    ];
+
+    viewer.sectionBox.setToPlanes(planes);
+    for (const plugin of pluginInstances.get(viewerId)?.values() ?? []) {
+        if (isSectionBoxPlugin(plugin)) {
+            plugin.setClippingPlanes(planes);
+            if (!plugin.stopped) {
+                plugin.bufferGeometry();
+            }
+        }
+    }
+}
+
+// Report boxes dragged with the section box control. Changes are reported once dragging pauses.
+function patchSectionBoxPlugin(viewerId: string, plugin: any): void {
+    const applySectionBox = plugin.applySectionBox;
+    plugin.applySectionBox = function (this: any) {
+        applySectionBox.call(this);
+
+        const watcher = sectionBoxWatchers.get(viewerId);
+        if (!watcher?.dotNetHelper) {
+            return;
+        }
+        clearTimeout(watcher.notifyTimer);
+        watcher.notifyTimer = window.setTimeout(() => {
+            watcher.notifyTimer = 0;
+            watcher.dotNetHelper?.invokeMethodAsync('OnSectionBoxMoved', getSectionBoxState(this.viewer));
+        }, 150);
+    };
+}
+
+// Get the current section box, or null if none is set
+export function getSectionBox(viewerId: string): SectionBoxState | null {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return null;
+        }
+
+        return getSectionBoxState(viewer);
+    } catch (error) {
+        console.error('Error getting section box:', error);
+        return null;
+    }
+}
+
+// Set the section box from its centre, size and rotation (degrees) in model coordinates
+export function setSectionBox(viewerId: string, box: SavedViewSectionBox): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        if (!box.rotationX && !box.rotationY && !box.rotationZ) {
+            setSectionBoxToBoundingBox(viewerId, viewer, [
+                box.location[0] - box.lengthX / 2, box.location[1] - box.lengthY / 2, box.location[2] - box.lengthZ / 2,
+                box.lengthX, box.lengthY, box.lengthZ
+            ]);
+        } else {
+            // Section box controls only handle axis aligned boxes
+            viewer.sectionBox.location = new Float32Array(box.location) as any;
+            viewer.sectionBox.lengthX = box.lengthX;
+            viewer.sectionBox.lengthY = box.lengthY;
+            viewer.sectionBox.lengthZ = box.lengthZ;
+            viewer.sectionBox.rotationX = box.rotationX;
+            viewer.sectionBox.rotationY = box.rotationY;
+            viewer.sectionBox.rotationZ = box.rotationZ;
+        }
+        viewer.draw();
+        return true;
+    } catch (error) {
+        console.error('Error setting section box:', error);
+        return false;
+    }
+}
+
+// Fit the section box around products (the selection if none are given) with padding in meters
+export function fitSectionBoxToProducts(viewerId: string, products: Array<{ id: number, model: number }> | null, padding: number = 0, zoom: boolean = true): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        const targets = products ?? viewer.getProductsWithState(State.HIGHLIGHTED);
+        const bbox = targets?.length ? viewer.getTargetsBoundingBox(targets) : null;
+        if (!bbox) {
+            console.error('No products to fit the section box to');
+            return false;
+        }
+
+        // The bounding box is relative to the current WCS
+        const wcs = viewer.getCurrentWcs() as ArrayLike<number>;
+        const meter = (viewer as any).activeHandles[0]?.meter || (viewer as any).unitsInMeter || 1;
+        const pad = Math.max(0, padding) * meter;
+        setSectionBoxToBoundingBox(viewerId, viewer, [
+            bbox[0] + wcs[0] - pad, bbox[1] + wcs[1] - pad, bbox[2] + wcs[2] - pad,
+            bbox[3] + 2 * pad, bbox[4] + 2 * pad, bbox[5] + 2 * pad
+        ]);
+
+        if (zoom) {
+            viewer.zoomTo();
+        }
+        viewer.draw();
+        return true;
+    } catch (error) {
+        console.error('Error fitting section box:', error);
+        return false;
+    }
+}
+
+// Report boxes dragged with the section box control to the OnSectionBoxMoved method of the .NET object
+export function watchSectionBox(viewerId: string, dotNetHelper: any): boolean {
+    if (!viewerInstances.has(viewerId)) {
+        console.error(`Viewer with id ${viewerId} not found`);
+        return false;
+    }
+
+    sectionBoxWatchers.set(viewerId, { dotNetHelper, notifyTimer: 0 });
+    return true;
+}
+
+// ============================================================
+// Storey Plans
+// ============================================================
+
+interface StoreyPlanOptions {
+    viewDepth?: number | null; // meters below the storey elevation which stay visible, null for everything
+    modelIds?: number[] | null; // models to cut, null for all models
+    duration?: number;
+}
+
+// View before the storey plan was shown, restored when the plan is closed
+interface StoreyPlanState {
+    navigationMode: string;
+    camera: CameraState | null;
+    planes: ClippingPlaneState[];
+}
+
+const storeyPlans = new Map<string, StoreyPlanState>(); // viewerId -> view before the plan
+const PLAN_NAVIGATION_MODES = ['pan', 'zoom', 'none'];
+
+// Allow only the given navigation modes, whoever sets them (toolbar, plugins or the viewer itself).
+// The accessor is defined on the instance and shadows the one of the viewer prototype.
+function lockNavigationModes(viewer: XbimViewer, modes: string[]): void {
+    const descriptor = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(viewer), 'navigationMode');
+    if (!descriptor?.get || !descriptor.set) {
+        return;
+    }
+    Object.defineProperty(viewer, 'navigationMode', {
+        configurable: true,
+        get() { return descriptor.get!.call(this); },
+        set(value: string) {
+            if (modes.indexOf(value) !== -1) {
+                descriptor.set!.call(this, value);
+            }
+        }
+    });
+}
+
+function unlockNavigationModes(viewer: XbimViewer): void {
+    delete (viewer as any).navigationMode;
+}
+
+// Show a floor plan: cut the models cutHeight meters above the storey elevation (model coordinates),
+// look at them from the top with an orthographic camera and limit navigation to pan and zoom
+export async function showStoreyPlan(viewerId: string, elevation: number, cutHeight: number, options?: StoreyPlanOptions): Promise<boolean> {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        const viewerAny = viewer as any;
+        if (!viewerAny.activeHandles?.length) {
+            console.error('No models loaded for a storey plan');
+            return false;
+        }
+
+        // Switching between storeys keeps the view from before the first plan
+        if (!storeyPlans.has(viewerId)) {
+            storeyPlans.set(viewerId, {
+                navigationMode: viewer.navigationMode,
+                camera: getCamera(viewerId),
+                planes: getClippingPlaneStates(viewer)
+            });
+        }
+
+        const meter = viewerAny.activeHandles[0].meter || viewerAny.unitsInMeter || 1;
+        const cut = elevation + cutHeight * meter;
+        const viewDepth = options?.viewDepth;
+        const planeA = [0, 0, -1, cut];
+        const planeB = viewDepth != null ? [0, 0, 1, -(elevation - viewDepth * meter)] : null;
+
+        recordViewerChange(viewerId, viewer, () => {
+            for (const handle of getClippingHandles(viewer, options?.modelIds)) {
+                handle.clippingPlaneA = planeA;
+                handle.clippingPlaneB = planeB;
+            }
+        });
+        refreshClippingPlanePlugins(viewerId);
+
+        unlockNavigationModes(viewer);
+        viewer.navigationMode = 'pan';
+        lockNavigationModes(viewer, PLAN_NAVIGATION_MODES);
+
+        viewer.camera = CameraType.ORTHOGONAL;
+        await viewer.show(ViewType.TOP, undefined, undefined, (options?.duration ?? 500) > 0);
+        return true;
+    } catch (error) {
+        console.error('Error showing storey plan:', error);
+        return false;
+    }
+}
+
+// Close the storey plan and return to the view from before it was shown
+export async function exitStoreyPlan(viewerId: string, duration: number = 500): Promise<boolean> {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        const state = storeyPlans.get(viewerId);
+        if (!viewer || !state) {
+            return false;
+        }
+
+        storeyPlans.delete(viewerId);
+        unlockNavigationModes(viewer);
+        viewer.navigationMode = state.navigationMode as any;
+
+        recordViewerChange(viewerId, viewer, () => {
+            for (const handle of (viewer as any)._handles ?? []) {
+                // Models loaded while the plan was shown lose the plan cut
+                const saved = state.planes.find(p => p.modelId === handle.id);
+                handle.clippingPlaneA = saved?.planeA ?? null;
+                handle.clippingPlaneB = saved?.planeB ?? null;
+            }
+        });
+        refreshClippingPlanePlugins(viewerId);
+
+        if (state.camera) {
+            await setCamera(viewerId, state.camera, duration);
+        }
+        return true;
+    } catch (error) {
+        console.error('Error closing storey plan:', error);
+        return false;
+    }
+}
+
+// Check if a storey plan is shown
+export function isStoreyPlanActive(viewerId: string): boolean {
+    return storeyPlans.has(viewerId);
+}
+
+// ============================================================
+// Rendering
+// ============================================================
+
+interface ImageAdjustments {
+    gamma?: number | null;
+    contrast?: number | null;
+    brightness?: number | null;
+}
+
+interface RenderingSettings {
+    renderingMode: number;
+    xrayColour: number[];
+    gamma: number;
+    contrast: number;
+    brightness: number;
+}
+
+const RENDERING_MODES: number[] = Object.values(RenderingMode);
+
+// Switch the rendering mode (normal, grayscale, x-ray, x-ray ultra)
+export function setRenderingMode(viewerId: string, mode: number): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        if (!RENDERING_MODES.includes(mode)) {
+            console.error(`Unknown rendering mode ${mode}`);
+            return false;
+        }
+
+        viewer.renderingMode = mode as any;
+        return true;
+    } catch (error) {
+        console.error('Error setting rendering mode:', error);
+        return false;
+    }
+}
+
+// Set the colour of ghosted elements in x-ray modes
+export function setXRayColor(viewerId: string, rgba: number[]): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        viewer.xrayColour = rgba;
+        return true;
+    } catch (error) {
+        console.error('Error setting x-ray color:', error);
+        return false;
+    }
+}
+
+// Adjust gamma, contrast and brightness of the rendered image. Missing values are left unchanged.
+export function setImageAdjustments(viewerId: string, adjustments: ImageAdjustments): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        if (adjustments.gamma != null) {
+            viewer.gamma = adjustments.gamma;
+        }
+        if (adjustments.contrast != null) {
+            viewer.contrast = adjustments.contrast;
+        }
+        if (adjustments.brightness != null) {
+            viewer.brightness = adjustments.brightness;
+        }
+        return true;
+    } catch (error) {
+        console.error('Error setting image adjustments:', error);
+        return false;
+    }
+}
+
+// Get the current rendering mode, x-ray colour and image adjustments
+export function getRenderingSettings(viewerId: string): RenderingSettings | null {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return null;
+        }
+
+        return {
+            renderingMode: viewer.renderingMode,
+            xrayColour: Array.from(viewer.xrayColour),
+            gamma: viewer.gamma,
+            contrast: viewer.contrast,
+            brightness: viewer.brightness
+        };
+    } catch (error) {
+        console.error('Error getting rendering settings:', error);
+        return null;
+    }
+}
+
+// ============================================================
+// Navigation
+// ============================================================
+
+const NAVIGATION_MODES = ['pan', 'zoom', 'orbit', 'free-orbit', 'look-around', 'walk', 'look-at', 'locked-orbit', 'none'];
+
+interface PivotPickState {
+    dotNetHelper: any;
+    mouseDown: (event: MouseEvent) => void;
+    mouseUp: (event: MouseEvent) => void;
+}
+
+const pivotPickers = new Map<string, PivotPickState>(); // viewerId -> right-click pivot listeners
+
+// Set the navigation mode used for the left mouse button. Locked orbit rotates around the
+// origin set by setLockedOrbitOrigin, or around the centre of the models when none is set.
+export function setNavigationMode(viewerId: string, mode: string): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        if (NAVIGATION_MODES.indexOf(mode) === -1) {
+            console.error(`Unknown navigation mode ${mode}`);
+            return false;
+        }
+
+        if (mode === 'locked-orbit' && !viewer.lockedOrbitOrigin) {
+            const region = viewer.getMergedRegion() as any;
+            if (!region?.centre) {
+                return false;
+            }
+            viewer.lockedOrbitOrigin = [region.centre[0], region.centre[1], region.centre[2]] as any;
+        }
+
+        viewer.navigationMode = mode as any;
+
+        // The mode is ignored while a storey plan limits navigation
+        return viewer.navigationMode === mode;
+    } catch (error) {
+        console.error('Error setting navigation mode:', error);
+        return false;
+    }
+}
+
+// Get the current navigation mode
+export function getNavigationMode(viewerId: string): string | null {
+    const viewer = viewerInstances.get(viewerId);
+    return viewer ? viewer.navigationMode : null;
+}
+
+// Set the centre of a product as the origin of the locked orbit navigation
+export function setLockedOrbitOrigin(viewerId: string, productId: number, modelId: number): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        viewer.setLockedOrbitOrigin(productId, modelId);
+        return true;
+    } catch (error) {
+        console.error('Error setting locked orbit origin:', error);
+        return false;
+    }
+}
+
+// Right-click a product to orbit around it: sets it as the locked orbit origin and switches
+// to locked orbit navigation. Right-drag still pans. The helper is notified with OnPivotPicked.
+export function enablePivotOnRightClick(viewerId: string, dotNetHelper: any): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        disablePivotOnRightClick(viewerId);
+
+        let downX = 0;
+        let downY = 0;
+        let isDown = false;
+        const state: PivotPickState = {
+            dotNetHelper,
+            mouseDown: (event: MouseEvent) => {
+                isDown = event.button === 2;
+                downX = event.clientX;
+                downY = event.clientY;
+            },
+            mouseUp: (event: MouseEvent) => {
+                if (event.button !== 2 || !isDown) {
+                    return;
+                }
+                isDown = false;
+
+                // A right-drag pans the view and does not move the pivot
+                if (Math.abs(event.clientX - downX) >= 3 || Math.abs(event.clientY - downY) >= 3) {
+                    return;
+                }
+
+                const rect = viewer.canvas.getBoundingClientRect();
+                const data = viewer.getEventData(event.clientX - rect.left, viewer.height - (event.clientY - rect.top));
+                if (data?.id == null || data?.model == null) {
+                    return;
+                }
+
+                if (!setLockedOrbitOrigin(viewerId, data.id, data.model) || !setNavigationMode(viewerId, 'locked-orbit')) {
+                    return;
+                }
+                state.dotNetHelper?.invokeMethodAsync('OnPivotPicked', data.id, data.model)
+                    .catch((error: any) => console.error('Error notifying pivot change:', error));
+            }
+        };
+
+        viewer.canvas.addEventListener('mousedown', state.mouseDown);
+        window.addEventListener('mouseup', state.mouseUp);
+        pivotPickers.set(viewerId, state);
+        return true;
+    } catch (error) {
+        console.error('Error enabling pivot on right-click:', error);
+        return false;
+    }
+}
+
+// Stop setting the pivot on right-click
+export function disablePivotOnRightClick(viewerId: string): boolean {
+    const state = pivotPickers.get(viewerId);
+    if (!state) {
+        return false;
+    }
+
+    viewerInstances.get(viewerId)?.canvas.removeEventListener('mousedown', state.mouseDown);
+    window.removeEventListener('mouseup', state.mouseUp);
+    pivotPickers.delete(viewerId);
+    return true;
+}
+
+// ============================================================
+// Styling
+// ============================================================
+
+// Products coloured with one style. A product takes the style of the first layer containing it.
+interface StyleLayer {
+    color: number[];
+    productTypes?: string[] | null;
+    products?: Array<{ id: number, model: number }> | null;
+}
+
+// The viewer has 225 style indices, shared by the features colouring products:
+//   0 - 124    Heatmap plugin, which allocates a style per colour within the range (manageHeatmapStyles)
+//   125 - 220  style layers, allocated downwards from the top
+//   221 - 224  model comparison (COMPARISON_STYLE_OFFSET)
+// Must match ViewerConstants.StyleRange.
+const MAX_STYLES = 225;
+const HEATMAP_STYLE_OFFSET = 0;
+const STYLE_LAYER_OFFSET = 125;
+const MAX_STYLE_LAYERS = MAX_STYLES - 4 - STYLE_LAYER_OFFSET;
+
+// Style index of a style layer
+function getStyleLayerIndex(layer: number): number {
+    return STYLE_LAYER_OFFSET + MAX_STYLE_LAYERS - 1 - layer;
+}
+
+// IFC type IDs of a type name, including its standard and elemented cases (IfcWall -> IFCWALL, IFCWALLSTANDARDCASE, ...)
+function getProductTypeIds(typeName: string): number[] {
+    const productTypes = (window as any).ProductType ?? (window as any).xbim?.ProductType;
+    if (!productTypes) {
+        return [];
+    }
+
+    const name = typeName.toUpperCase();
+    return [name, `${name}STANDARDCASE`, `${name}ELEMENTEDCASE`]
+        .map(key => productTypes[key])
+        .filter((id: any) => typeof id === 'number');
+}
+
+// Replace the styles of all loaded models with the layers. Layer i uses style index getStyleLayerIndex(i).
+// Returns the number of products coloured by each layer.
+export function applyStyleLayers(viewerId: string, layers: StyleLayer[]): number[] | null {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return null;
+        }
+
+        if (layers.length > MAX_STYLE_LAYERS) {
+            console.error(`Only ${MAX_STYLE_LAYERS} style layers can be defined, got ${layers.length}`);
+            return null;
+        }
+
+        const handles: any[] = ((viewer as any)._handles ?? []).filter((h: any) => !h.empty);
+        const styled = new Map<number, Set<number>>(handles.map(h => [h.id, new Set<number>()]));
+        const counts = layers.map(() => 0);
+
+        layers.forEach((layer, index) => viewer.defineStyle(getStyleLayerIndex(index), layer.color));
+
+        // Undo doesn't restore styles, so style changes are not recorded
+        handles.forEach(handle => viewer.resetStyles(handle.id));
+
+        layers.forEach((layer, index) => {
+            const typeIds = (layer.productTypes ?? []).reduce((ids: number[], name) => ids.concat(getProductTypeIds(name)), []);
+
+            for (const handle of handles) {
+                const done = styled.get(handle.id)!;
+                const candidates = typeIds.reduce(
+                    (ids: number[], typeId) => ids.concat(viewer.getProductsOfType(typeId, handle.id) ?? []),
+                    (layer.products ?? []).filter(p => p.model === handle.id).map(p => p.id));
+
+                // Earlier layers take precedence
+                const ids = candidates.filter(id => {
+                    if (done.has(id)) {
+                        return false;
+                    }
+                    done.add(id);
+                    return true;
+                });
+                if (ids.length > 0) {
+                    viewer.setStyle(getStyleLayerIndex(index), ids, handle.id);
+                    counts[index] += ids.length;
+                }
+            }
+        });
+
+        return counts;
+    } catch (error) {
+        console.error('Error applying style layers:', error);
+        return null;
+    }
+}
+
+// Remove the styles of all loaded models
+export function resetStyles(viewerId: string): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        for (const handle of (viewer as any)._handles ?? []) {
+            viewer.resetStyles(handle.id);
+        }
+        return true;
+    } catch (error) {
+        console.error('Error resetting styles:', error);
+        return false;
+    }
+}
+
+// ============================================================
+// Ghost Isolation
+// ============================================================
+
+// Products marked x-ray visible by ghostIsolate and the rendering settings to restore
+interface GhostState {
+    products: Map<number, number[]>;
+    renderingMode: number;
+    xrayColour: number[];
+}
+
+const ghostStates = new Map<string, GhostState>();
+
+// Remove the x-ray visible state from the products marked by ghostIsolate
+function clearGhostedProducts(viewer: XbimViewer, state: GhostState): void {
+    state.products.forEach((ids, modelId) => {
+        if (ids.length > 0) {
+            viewer.removeState(State.XRAYVISIBLE as any, ids, modelId);
+        }
+    });
+    state.products.clear();
+}
+
+// Show the products solid and everything else as transparent ghosts. Products without a model
+// are looked up in all models. Opacity (0-1) sets the transparency of the ghosts; null keeps the x-ray colour.
+export function ghostIsolate(
+    viewerId: string,
+    products: Array<{ id: number, model?: number | null }>,
+    opacity?: number | null,
+    onTop: boolean = false
+): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        if (products.length === 0) {
+            console.warn('No elements to ghost isolate');
+            return false;
+        }
+
+        let state = ghostStates.get(viewerId);
+        if (state) {
+            clearGhostedProducts(viewer, state);
+        } else {
+            state = {
+                products: new Map<number, number[]>(),
+                renderingMode: viewer.renderingMode,
+                xrayColour: Array.from(viewer.xrayColour)
+            };
+        }
+
+        // Leave products which were already x-ray visible (e.g. heatmap values) as they are
+        const existing = new Set(viewer.getProductsWithState(State.XRAYVISIBLE as any).map(p => `${p.model}:${p.id}`));
+        const handles: any[] = ((viewer as any)._handles ?? []).filter((h: any) => !h.empty);
+        for (const handle of handles) {
+            const ids = products
+                .filter(p => p.model == null || p.model === handle.id)
+                .map(p => p.id)
+                .filter(id => !existing.has(`${handle.id}:${id}`));
+            if (ids.length > 0) {
+                viewer.addState(State.XRAYVISIBLE as any, ids, handle.id);
+                state.products.set(handle.id, ids);
+            }
+        }
+
+        if (opacity != null) {
+            const alpha = Math.round(Math.min(Math.max(opacity, 0), 1) * 255);
+            viewer.xrayColour = [state.xrayColour[0], state.xrayColour[1], state.xrayColour[2], alpha];
+        }
+        viewer.renderingMode = (onTop ? RenderingMode.XRAY_ULTRA : RenderingMode.XRAY) as any;
+
+        ghostStates.set(viewerId, state);
+        return true;
+    } catch (error) {
+        console.error('Error ghost isolating elements:', error);
+        return false;
+    }
+}
+
+// End ghost isolation and restore the rendering mode and x-ray colour
+export function unghost(viewerId: string): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        const state = ghostStates.get(viewerId);
+        if (!state) {
+            return true;
+        }
+
+        clearGhostedProducts(viewer, state);
+        viewer.xrayColour = state.xrayColour;
+        viewer.renderingMode = state.renderingMode as any;
+        ghostStates.delete(viewerId);
+        return true;
+    } catch (error) {
+        console.error('Error ending ghost isolation:', error);
+        return false;
+    }
+}
+
+export function isGhosted(viewerId: string): boolean {
+    return ghostStates.has(viewerId);
+}
+
+// ============================================================
+// Model Alignment
+// ============================================================
+
+// Offset of a model from the origin (WCS) stored in its wexBIM file, in model units
+interface ModelAlignment {
+    modelId: number;
+    originalWcs: number[];
+    wcs: number[];
+    offset: number[];
+    meter: number;
+}
+
+// Original WCS of each model whose offset was changed, per viewer
+const modelOrigins = new Map<string, Map<number, number[]>>();
+
+function findModelHandle(viewer: XbimViewer, modelId: number): any {
+    return ((viewer as any)._handles ?? []).find((h: any) => h.id === modelId && !h.empty);
+}
+
+function getHandleAlignment(viewerId: string, handle: any): ModelAlignment {
+    const wcs: number[] = Array.from(handle.wcs);
+    const originalWcs = modelOrigins.get(viewerId)?.get(handle.id) ?? wcs;
+    return {
+        modelId: handle.id,
+        originalWcs: originalWcs.slice(),
+        wcs,
+        offset: wcs.map((value, i) => value - originalWcs[i]),
+        meter: handle.meter
+    };
+}
+
+// Get the alignment of all loaded models
+export function getModelAlignments(viewerId: string): ModelAlignment[] | null {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return null;
+        }
+
+        return ((viewer as any)._handles ?? [])
+            .filter((h: any) => !h.empty)
+            .map((h: any) => getHandleAlignment(viewerId, h));
+    } catch (error) {
+        console.error('Error getting model alignments:', error);
+        return null;
+    }
+}
+
+// Move a model by an offset (in model units) from the origin stored in its wexBIM file.
+// Models are drawn relative to the first visible model, so offsetting that model moves the others on screen.
+export function setModelOffset(viewerId: string, modelId: number, offset: number[]): ModelAlignment | null {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return null;
+        }
+
+        const handle = findModelHandle(viewer, modelId);
+        if (!handle) {
+            console.error(`Model ${modelId} not found`);
+            return null;
+        }
+
+        if (!offset || offset.length !== 3 || offset.some(v => !isFinite(v))) {
+            console.error('Offset must have three finite values');
+            return null;
+        }
+
+        let origins = modelOrigins.get(viewerId);
+        if (!origins) {
+            origins = new Map<number, number[]>();
+            modelOrigins.set(viewerId, origins);
+        }
+        if (!origins.has(modelId)) {
+            origins.set(modelId, Array.from(handle.wcs));
+        }
+
+        const originalWcs = origins.get(modelId)!;
+        for (let i = 0; i < 3; i++) {
+            handle.wcs[i] = originalWcs[i] + offset[i];
+        }
+        (viewer as any).changed = true;
+
+        return getHandleAlignment(viewerId, handle);
+    } catch (error) {
+        console.error('Error setting model offset:', error);
+        return null;
+    }
+}
+
+// ============================================================
+// Model Flags
+// ============================================================
+
+// Per-model flags of the viewer's model handle
+interface ModelFlags {
+    pickable: boolean;
+    clippable: boolean;
+    pinned: boolean;
+}
+
+export function getModelFlags(viewerId: string, modelId: number): ModelFlags | null {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return null;
+        }
+
+        const handle = findModelHandle(viewer, modelId);
+        if (!handle) {
+            console.error(`Model ${modelId} not found`);
+            return null;
+        }
+
+        return { pickable: handle.pickable, clippable: handle.clippable, pinned: handle.pinned };
+    } catch (error) {
+        console.error('Error getting model flags:', error);
+        return null;
+    }
+}
+
+// Set the flags of a model. Flags which are not given keep their value.
+// A model which is not pickable lets clicks through to the models behind it.
+// A model which is not clippable loses its clipping planes and gets them back when it becomes clippable again.
+// Pinned models are always drawn completely, also when adaptive performance drops products.
+export function setModelFlags(viewerId: string, modelId: number, flags: Partial<ModelFlags>): ModelFlags | null {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return null;
+        }
+
+        const handle = findModelHandle(viewer, modelId);
+        if (!handle) {
+            console.error(`Model ${modelId} not found`);
+            return null;
+        }
+
+        if (flags.pickable != null && flags.pickable !== handle.pickable) {
+            if (flags.pickable) {
+                viewer.startPicking(modelId);
+            } else {
+                viewer.stopPicking(modelId);
+            }
+        }
+
+        if (flags.clippable != null && flags.clippable !== handle.clippable) {
+            if (flags.clippable) {
+                // Take the planes of the other clippable models, unless the model is excluded from clipping
+                const clip = viewer.getClip();
+                const modelIds = clippingSettings.get(viewerId)?.modelIds;
+                handle.clippable = true;
+                if (clip && (!modelIds || modelIds.indexOf(modelId) !== -1)) {
+                    handle.clippingPlaneA = clip.PlaneA;
+                    handle.clippingPlaneB = clip.PlaneB;
+                }
+            } else {
+                handle.clippable = false;
+                handle.clippingPlaneA = null;
+                handle.clippingPlaneB = null;
+            }
+        }
+
+        if (flags.pinned != null) {
+            handle.pinned = flags.pinned;
+        }
+
+        (viewer as any).changed = true;
+        return { pickable: handle.pickable, clippable: handle.clippable, pinned: handle.pinned };
+    } catch (error) {
+        console.error('Error setting model flags:', error);
+        return null;
+    }
+}
+
+// ============================================================
+// Performance Diagnostics
+// ============================================================
+
+// Triangle count of a product with its type
+interface ProductAnalysis {
+    modelId: number;
+    productId: number;
+    productType: number | null;
+    productTypeName: string | null;
+    triangles: number;
+    size: number;
+    volume: number;
+    density: number;
+}
+
+// Heaviest products and the totals over all analysed products
+interface ProductAnalysisReport {
+    products: ProductAnalysis[];
+    productCount: number;
+    triangleCount: number;
+}
+
+interface PerformanceStats {
+    fps: number;
+    performance: number;
+    adaptivePerformanceOn: boolean;
+}
+
+// Only the first products of a report are sent, models can have hundreds of thousands of products
+function toProductAnalysisReport(viewer: XbimViewer, results: any[], limit: number): ProductAnalysisReport {
+    // The numeric enum maps type IDs back to IFC names
+    const productTypes = (window as any).ProductType ?? (window as any).xbim?.ProductType ?? {};
+    return {
+        products: results.slice(0, Math.max(limit, 0)).map(r => {
+            const productType = viewer.getProductType(r.productId, r.modelId) ?? null;
+            return {
+                modelId: r.modelId,
+                productId: r.productId,
+                productType,
+                productTypeName: productType != null ? productTypes[productType] ?? null : null,
+                triangles: r.numberOfTriangles,
+                size: r.size,
+                volume: r.volume,
+                density: isFinite(r.density) ? r.density : 0
+            };
+        }),
+        productCount: results.length,
+        triangleCount: results.reduce((sum, r) => sum + r.numberOfTriangles, 0)
+    };
+}
+
+// Get the products with the most triangles (or the highest density of triangles per volume) of all visible models
+export function getProductAnalysis(viewerId: string, orderBy: 'triangles' | 'density' = 'triangles', limit: number = 100): ProductAnalysisReport | null {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return null;
+        }
+
+        return toProductAnalysisReport(viewer, viewer.getProductAnalysis(orderBy), limit);
+    } catch (error) {
+        console.error('Error analysing products:', error);
+        return null;
+    }
+}
+
+// Isolate the heaviest products which together hold the given ratio (0-1) of all triangles or density
+export function isolateHeavyProducts(viewerId: string, measure: 'triangles' | 'density' = 'triangles', ratio: number = 0.2, limit: number = 100): ProductAnalysisReport | null {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return null;
+        }
+
+        const results = viewer.isolateHeavyProducts(measure, Math.min(Math.max(ratio, 0), 1));
+        return toProductAnalysisReport(viewer, results, limit);
+    } catch (error) {
+        console.error('Error isolating heavy products:', error);
+        return null;
+    }
+}
+
+// Get the current frame rate and performance rating of the viewer
+export function getPerformanceStats(viewerId: string): PerformanceStats | null {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return null;
+        }
+
+        const fps = (viewer as any)._fpsWatch?.fps ?? 0;
+        return {
+            fps: isFinite(fps) ? Math.round(fps) : 0,
+            performance: viewer.performance,
+            adaptivePerformanceOn: viewer.adaptivePerformanceOn
+        };
+    } catch (error) {
+        console.error('Error getting performance stats:', error);
+        return null;
+    }
+}
+
+// Switch adaptive performance (dropping small products while navigating) on or off
+export function setAdaptivePerformance(viewerId: string, on: boolean): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        viewer.adaptivePerformanceOn = on;
+        return true;
+    } catch (error) {
+        console.error('Error setting adaptive performance:', error);
+        return false;
+    }
+}
+
+// Zoom to products of any model
+export async function zoomToProducts(viewerId: string, products: Array<{ id: number, model: number }>, withAnimation: boolean = true): Promise<boolean> {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        if (products.length === 0) {
+            return false;
+        }
+
+        await viewer.zoomTo(products, undefined, withAnimation);
+        return true;
+    } catch (error) {
+        console.error('Error zooming to products:', error);
+        return false;
+    }
+}
+
+// ============================================================
+// WexBIM Inspection
+// ============================================================
+
+// The header, regions, styles and products at the start of a wexBIM file.
+// The WexBimStream readers of the viewer are not part of its bundle, so the format is read here.
+interface WexbimInfo {
+    version: number;
+    shapeCount: number;
+    vertexCount: number;
+    triangleCount: number;
+    matrixCount: number;
+    productCount: number;
+    styleCount: number;
+    oneMeter: number;
+    wcs: number[];
+    regions: Array<{ population: number, centre: number[], boundingBox: number[] }>;
+    productTypes: Array<{ productType: number, typeName: string | null, count: number }>;
+    size: number | null;
+}
+
+const WEXBIM_MAGIC_NUMBER = 94132117;
+const WEXBIM_MAX_VERSION = 4;
+
+// Offset of the region count, which follows the counts, the meter and (from version 4) the WCS
+function getWexbimRegionCountOffset(version: number): number {
+    return 33 + (version > 3 ? 24 : 0);
+}
+
+// Number of bytes holding the header, regions, styles and products, or null if more bytes are needed to know
+function getWexbimInfoLength(view: DataView): number | null {
+    if (view.byteLength < 5) {
+        return null;
+    }
+
+    if (view.getInt32(0, true) !== WEXBIM_MAGIC_NUMBER) {
+        throw new Error('This is not a wexBIM file.');
+    }
+
+    const version = view.getUint8(4);
+    if (version > WEXBIM_MAX_VERSION) {
+        throw new Error(`Version ${version} of the wexBIM format is not supported.`);
+    }
+
+    const regionCountOffset = getWexbimRegionCountOffset(version);
+    if (view.byteLength < regionCountOffset + 2) {
+        return null;
+    }
+
+    const productCount = view.getInt32(21, true);
+    const styleCount = view.getInt32(25, true);
+    const regionCount = view.getInt16(regionCountOffset, true);
+    return regionCountOffset + 2 + regionCount * 40 + styleCount * 20 + productCount * 30;
+}
+
+function readWexbimInfo(view: DataView, size: number | null): WexbimInfo {
+    const version = view.getUint8(4);
+    const int32 = (offset: number) => view.getInt32(offset, true);
+    const float32s = (offset: number, count: number) =>
+        Array.from({ length: count }, (_, i) => view.getFloat32(offset + i * 4, true));
+
+    const productCount = int32(21);
+    const styleCount = int32(25);
+    let offset = getWexbimRegionCountOffset(version);
+    const wcs = version > 3
+        ? [view.getFloat64(33, true), view.getFloat64(41, true), view.getFloat64(49, true)]
+        : [0, 0, 0];
+
+    const regionCount = view.getInt16(offset, true);
+    offset += 2;
+    const regions: WexbimInfo['regions'] = [];
+    for (let i = 0; i < regionCount; i++, offset += 40) {
+        regions.push({ population: int32(offset), centre: float32s(offset + 4, 3), boundingBox: float32s(offset + 16, 6) });
+    }
+
+    // Styles are not reported, only skipped
+    offset += styleCount * 20;
+
+    const counts = new Map<number, number>();
+    for (let i = 0; i < productCount; i++, offset += 30) {
+        const type = view.getInt16(offset + 4, true);
+        counts.set(type, (counts.get(type) ?? 0) + 1);
+    }
+
+    // The numeric enum maps type IDs back to IFC names
+    const productTypes = (window as any).ProductType ?? (window as any).xbim?.ProductType ?? {};
+    return {
+        version,
+        shapeCount: int32(5),
+        vertexCount: int32(9),
+        triangleCount: int32(13),
+        matrixCount: int32(17),
+        productCount,
+        styleCount,
+        oneMeter: view.getFloat32(29, true),
+        wcs,
+        regions,
+        productTypes: Array.from(counts.entries())
+            .map(([productType, count]) => ({ productType, typeName: productTypes[productType] ?? null, count }))
+            .sort((a, b) => b.count - a.count),
+        size
+    };
+}
+
+// Read chunks until the header, regions, styles and products are complete, then stop reading.
+// Geometry is never read and nothing is handed to the viewer.
+async function readWexbimInfoFromStream(reader: ReadableStreamDefaultReader<Uint8Array<ArrayBuffer>>, size: number | null): Promise<WexbimInfo> {
+    let buffer = new Uint8Array(0);
+    let required: number | null = null;
+    try {
+        while (required === null || buffer.length < required) {
+            const { done, value } = await reader.read();
+            if (done || !value) {
+                throw new Error('The file ended before the wexBIM header was complete.');
+            }
+
+            const next = new Uint8Array(buffer.length + value.length);
+            next.set(buffer);
+            next.set(value, buffer.length);
+            buffer = next;
+            required = getWexbimInfoLength(new DataView(buffer.buffer));
+        }
+    } finally {
+        await reader.cancel().catch(() => { /* the stream may already be closed */ });
+    }
+
+    return readWexbimInfo(new DataView(buffer.buffer, 0, required), size);
+}
+
+// Read the header of a wexBIM file from a URL without loading it. Only the start of the file is downloaded.
+export async function inspectWexbim(url: string, headers?: Record<string, string> | null): Promise<WexbimInfo | null> {
+    try {
+        const response = await fetch(url, { headers: headers ?? {} });
+        if (!response.ok || !response.body) {
+            console.error(`Could not download ${url}: ${response.status} ${response.statusText}`);
+            return null;
+        }
+
+        const length = Number(response.headers.get('Content-Length'));
+        return await readWexbimInfoFromStream(response.body.getReader() as ReadableStreamDefaultReader<Uint8Array<ArrayBuffer>>, length > 0 ? length : null);
+    } catch (error) {
+        console.error('Error inspecting wexBIM file:', error);
+        return null;
+    }
+}
+
+// Read the header of a wexBIM file streamed from .NET (DotNetStreamReference) without loading it
+export async function inspectWexbimStream(streamRef: any, size?: number | null): Promise<WexbimInfo | null> {
+    try {
+        const stream: ReadableStream<Uint8Array<ArrayBuffer>> = await streamRef.stream();
+        return await readWexbimInfoFromStream(stream.getReader(), size ?? null);
+    } catch (error) {
+        console.error('Error inspecting wexBIM stream:', error);
+        return null;
+    }
+}
+
+// ============================================================
+// Linked Viewers
+// ============================================================
+
+// What linked viewers mirror from each other
+interface LinkChannels {
+    camera: boolean;
+    selection: boolean;
+    visibility: boolean;
+}
+
+interface ViewerLink {
+    groupId: string;
+    channels: LinkChannels;
+    dotNetHelper: any;
+    camera: number[] | null; // camera of the viewer after the last sync
+}
+
+interface LinkGroup {
+    viewerIds: Set<string>;
+    frame: number;
+    syncing: boolean;
+}
+
+const linkGroups = new Map<string, LinkGroup>(); // groupId -> linked viewers
+const viewerLinks = new Map<string, ViewerLink>(); // viewerId -> link of the viewer
+
+function getCameraSignature(viewer: XbimViewer): number[] {
+    const properties = viewer.cameraProperties;
+    return [...Array.from(viewer.mvMatrix as ArrayLike<number>), properties.type, properties.fov, properties.height];
+}
+
+function isSameCamera(a: number[] | null, b: number[]): boolean {
+    return !!a && a.length === b.length && a.every((v, i) => Math.abs(v - b[i]) < 1e-6);
+}
+
+// Copy the camera of one viewer to another. The view matrix is relative to the WCS of each viewer,
+// so it is moved by the difference of the two to look at the same world position.
+function copyCamera(source: XbimViewer, target: XbimViewer): void {
+    const mv = Array.from(source.mvMatrix as ArrayLike<number>);
+    const sourceWcs = source.getCurrentWcs() ?? [0, 0, 0];
+    const targetWcs = target.getCurrentWcs() ?? [0, 0, 0];
+    const d = [0, 1, 2].map(i => sourceWcs[i] - targetWcs[i]);
+    for (let row = 0; row < 3; row++) {
+        mv[12 + row] -= mv[row] * d[0] + mv[4 + row] * d[1] + mv[8 + row] * d[2];
+    }
+
+    if (target.camera !== source.camera) {
+        target.camera = source.camera;
+    }
+    target.cameraProperties.fov = source.cameraProperties.fov;
+    target.cameraProperties.height = source.cameraProperties.height;
+    target.mvMatrix = new Float32Array(mv) as any;
+}
+
+// Runs every frame while two or more viewers of the group link their camera. The first viewer whose
+// camera moved since the last frame leads and the other viewers with the camera channel follow it.
+function syncLinkedCameras(groupId: string): void {
+    const group = linkGroups.get(groupId);
+    if (!group) {
+        return;
+    }
+
+    const members = getLinkMembers(group).filter(m => m.link.channels.camera);
+    if (members.length < 2) {
+        group.frame = 0;
+        return;
+    }
+    group.frame = requestAnimationFrame(() => syncLinkedCameras(groupId));
+
+    const source = members.find(m => !isSameCamera(m.link.camera, getCameraSignature(m.viewer)));
+    if (!source) {
+        return;
+    }
+
+    source.link.camera = getCameraSignature(source.viewer);
+    for (const target of members) {
+        if (target !== source) {
+            copyCamera(source.viewer, target.viewer);
+            target.link.camera = getCameraSignature(target.viewer);
+        }
+    }
+}
+
+// Start or stop following cameras after the members or channels of a group changed
+function updateLinkedCameraLoop(groupId: string): void {
+    const group = linkGroups.get(groupId);
+    if (!group) {
+        return;
+    }
+
+    const cameras = getLinkMembers(group).filter(m => m.link.channels.camera).length;
+    if (cameras >= 2 && !group.frame) {
+        group.frame = requestAnimationFrame(() => syncLinkedCameras(groupId));
+    } else if (cameras < 2 && group.frame) {
+        cancelAnimationFrame(group.frame);
+        group.frame = 0;
+    }
+}
+
+function getLinkMembers(group: LinkGroup): Array<{ viewerId: string, viewer: XbimViewer, link: ViewerLink }> {
+    const members: Array<{ viewerId: string, viewer: XbimViewer, link: ViewerLink }> = [];
+    group.viewerIds.forEach(viewerId => {
+        const viewer = viewerInstances.get(viewerId);
+        const link = viewerLinks.get(viewerId);
+        if (viewer && link) {
+            members.push({ viewerId, viewer, link });
+        }
+    });
+    return members;
+}
+
+// Loaded models in load order. Models of linked viewers are matched by their position in this list.
+function getLinkedModelIds(viewer: XbimViewer): number[] {
+    return ((viewer as any)._handles ?? []).filter((h: any) => !h.empty).map((h: any) => h.id);
+}
+
+// Selection and visibility of a viewer in comparable form, with the first modelCount models
+// identified by their load order
+function getLinkedStateKeys(viewer: XbimViewer, modelCount: number): { selection: string, visibility: string } {
+    const state = captureViewerState(viewer);
+    const models = getLinkedModelIds(viewer).slice(0, modelCount);
+    const products = (list: Array<{ id: number, model: number }>) => list
+        .filter(p => models.includes(p.model))
+        .map(p => `${models.indexOf(p.model)}:${p.id}`)
+        .sort();
+    const isolated = models.map(id => {
+        const ids = state.handles.find(h => h.id === id)?.isolated;
+        return ids ? [...ids].sort((a, b) => a - b) : null;
+    });
+
+    return {
+        selection: JSON.stringify(products(state.highlighted)),
+        visibility: JSON.stringify({ hidden: products(state.hidden), isolated })
+    };
+}
+
+// Copy the selection and/or the hidden and isolated products of one viewer to another
+function applyLinkedState(source: XbimViewer, target: XbimViewer, channels: LinkChannels): void {
+    const state = captureViewerState(source);
+    const sourceModels = getLinkedModelIds(source);
+    const targetModels = getLinkedModelIds(target);
+    const toTargetModel = (modelId: number): number | undefined => targetModels[sourceModels.indexOf(modelId)];
+
+    // Products of models the target doesn't have are skipped
+    const byModel = (products: Array<{ id: number, model: number }>, mapModel: (modelId: number) => number | undefined) => {
+        const result = new Map<number, number[]>();
+        for (const p of products) {
+            const modelId = mapModel(p.model);
+            if (modelId === undefined) continue;
+            if (!result.has(modelId)) result.set(modelId, []);
+            result.get(modelId)!.push(p.id);
+        }
+        return result;
+    };
+    const replaceState = (stateValue: number, products: Array<{ id: number, model: number }>) => {
+        byModel(target.getProductsWithState(stateValue), id => id).forEach((ids, modelId) => target.removeState(stateValue, ids, modelId));
+        byModel(products, toTargetModel).forEach((ids, modelId) => target.setState(stateValue, ids, modelId));
+    };
+
+    if (channels.selection) {
+        replaceState(State.HIGHLIGHTED, state.highlighted);
+    }
+
+    if (channels.visibility) {
+        replaceState(State.HIDDEN, state.hidden);
+        for (const saved of state.handles) {
+            const modelId = toTargetModel(saved.id);
+            const handle = modelId !== undefined ? findModelHandle(target, modelId) : null;
+            if (handle) {
+                handle.isolatedProducts = saved.isolated;
+            }
+        }
+    }
+
+    target.draw();
+}
+
+// Mirror the selection and visibility of a viewer in the other viewers of its group.
+// Called after every recorded change, so changes made through the interop are picked up. Only viewers
+// which differ are changed, and the change isn't recorded so their undo history stays their own.
+function syncLinkedViewers(viewerId: string, viewer: XbimViewer): void {
+    const link = viewerLinks.get(viewerId);
+    const group = link ? linkGroups.get(link.groupId) : undefined;
+    if (!link || !group || group.syncing || (!link.channels.selection && !link.channels.visibility)) {
+        return;
+    }
+
+    group.syncing = true;
+    try {
+        for (const target of getLinkMembers(group)) {
+            if (target.viewerId === viewerId) continue;
+
+            const modelCount = Math.min(getLinkedModelIds(viewer).length, getLinkedModelIds(target.viewer).length);
+            const source = getLinkedStateKeys(viewer, modelCount);
+            const current = getLinkedStateKeys(target.viewer, modelCount);
+            const channels: LinkChannels = {
+                camera: false,
+                selection: link.channels.selection && target.link.channels.selection && source.selection !== current.selection,
+                visibility: link.channels.visibility && target.link.channels.visibility && source.visibility !== current.visibility
+            };
+            if (!channels.selection && !channels.visibility) continue;
+
+            applyLinkedState(viewer, target.viewer, channels);
+            if (channels.selection) {
+                target.link.dotNetHelper?.invokeMethodAsync('OnLinkedSelectionChanged');
+            }
+        }
+    } finally {
+        group.syncing = false;
+    }
+}
+
+// Bring a viewer in line with the rest of its group
+function catchUpLinkedViewer(viewerId: string, viewer: XbimViewer, link: ViewerLink): void {
+    const group = linkGroups.get(link.groupId);
+    const other = group ? getLinkMembers(group).find(m => m.viewerId !== viewerId) : undefined;
+
+    if (link.channels.camera && other?.link.channels.camera) {
+        copyCamera(other.viewer, viewer);
+    }
+    link.camera = getCameraSignature(viewer);
+
+    if (other) {
+        syncLinkedViewers(other.viewerId, other.viewer);
+    }
+}
+
+// Add a viewer to a link group. The viewer takes the camera, selection and visibility of the group
+// for the linked channels. A viewer is in one group at a time.
+export function linkViewer(viewerId: string, groupId: string, channels?: Partial<LinkChannels> | null, dotNetHelper?: any): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        unlinkViewer(viewerId);
+
+        let group = linkGroups.get(groupId);
+        if (!group) {
+            group = { viewerIds: new Set(), frame: 0, syncing: false };
+            linkGroups.set(groupId, group);
+        }
+
+        const link: ViewerLink = {
+            groupId,
+            channels: { camera: true, selection: true, visibility: true, ...channels },
+            dotNetHelper: dotNetHelper ?? null,
+            camera: null
+        };
+        group.viewerIds.add(viewerId);
+        viewerLinks.set(viewerId, link);
+        catchUpLinkedViewer(viewerId, viewer, link);
+        updateLinkedCameraLoop(groupId);
+        return true;
+    } catch (error) {
+        console.error('Error linking viewer:', error);
+        return false;
+    }
+}
+
+// Turn channels of a linked viewer on or off. Missing channels keep their value.
+export function setLinkChannels(viewerId: string, channels: Partial<LinkChannels>): LinkChannels | null {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return null;
+        }
+
+        const link = viewerLinks.get(viewerId);
+        if (!link) {
+            console.error(`Viewer ${viewerId} is not linked`);
+            return null;
+        }
+
+        link.channels = { ...link.channels, ...channels };
+        catchUpLinkedViewer(viewerId, viewer, link);
+        updateLinkedCameraLoop(link.groupId);
+        return { ...link.channels };
+    } catch (error) {
+        console.error('Error setting link channels:', error);
+        return null;
+    }
+}
+
+// Remove a viewer from its link group
+export function unlinkViewer(viewerId: string): boolean {
+    const link = viewerLinks.get(viewerId);
+    if (!link) {
+        return true;
+    }
+
+    viewerLinks.delete(viewerId);
+    const group = linkGroups.get(link.groupId);
+    if (group) {
+        group.viewerIds.delete(viewerId);
+        updateLinkedCameraLoop(link.groupId);
+        if (group.viewerIds.size === 0) {
+            linkGroups.delete(link.groupId);
+        }
+    }
+    return true;
+}
+
+// Get the ids of the other viewers in the group of a viewer
+export function getLinkedViewers(viewerId: string): string[] {
+    const link = viewerLinks.get(viewerId);
+    const group = link ? linkGroups.get(link.groupId) : undefined;
+    return group ? Array.from(group.viewerIds).filter(id => id !== viewerId) : [];
+}
+
+// ============================================================
+// Model Comparison
+// ============================================================
+
+// Product of a model version. Products of two versions are matched by their GUID.
+interface ProductVersion {
+    id: number;
+    guid: string;
+    hash?: string | null;
+}
+
+interface ModelComparisonOptions {
+    tolerance?: number | null; // meters
+    compareGeometry?: boolean;
+    compareProperties?: boolean;
+    colors?: { added?: number[], removed?: number[], modified?: number[], unchanged?: number[] } | null;
+}
+
+interface ModelComparisonChange {
+    guid: string;
+    category: number;
+    baseProductId: number | null;
+    productId: number | null;
+    geometryChanged: boolean;
+    propertiesChanged: boolean;
+}
+
+interface ModelComparisonResult {
+    baseModelId: number;
+    modelId: number;
+    addedCount: number;
+    removedCount: number;
+    modifiedCount: number;
+    unchangedCount: number;
+    changes: ModelComparisonChange[];
+}
+
+interface ModelComparisonState {
+    baseModelId: number;
+    modelId: number;
+    productIds: Map<number, number[]>; // category -> products of the new version (removed: of the base version)
+    stoppedModels: Set<number>; // versions stopped by the filter because none of their products are shown
+}
+
+const ComparisonCategory = {
+    UNCHANGED: 0,
+    ADDED: 1,
+    REMOVED: 2,
+    MODIFIED: 3
+} as const;
+
+// The comparison uses the last four styles, above the style layers (see MAX_STYLES)
+const COMPARISON_STYLE_OFFSET = MAX_STYLES - 4;
+const DEFAULT_COMPARISON_COLORS = {
+    added: [40, 167, 69, 255],
+    removed: [220, 53, 69, 255],
+    modified: [255, 153, 0, 255],
+    unchanged: [180, 180, 180, 60]
+};
+
+const modelComparisons = new Map<string, ModelComparisonState>(); // viewerId -> active comparison
+
+function isSameBoundingBox(a: ArrayLike<number> | null | undefined, b: ArrayLike<number> | null | undefined, tolerance: number): boolean {
+    if (!a || !b || a.length !== 6 || b.length !== 6) {
+        return !a === !b;
+    }
+    for (let i = 0; i < 6; i++) {
+        if (Math.abs(a[i] - b[i]) > tolerance) {
+            return false;
+        }
+    }
+    return true;
+}
+
+// Show only the given products of a version; null shows all of them. The viewer draws the whole model
+// for an empty isolation, so a version without shown products is stopped instead and started again later.
+function isolateComparedModel(viewer: XbimViewer, state: ModelComparisonState, modelId: number, ids: number[] | null): void {
+    const handle = findModelHandle(viewer, modelId);
+    if (!handle) {
+        return;
+    }
+
+    if (ids !== null && ids.length === 0) {
+        handle.isolatedProducts = undefined;
+        // A version hidden in the model manager is left to it
+        if (!handle.stopped) {
+            viewer.stop(modelId);
+            state.stoppedModels.add(modelId);
+        }
+        return;
+    }
+
+    if (state.stoppedModels.delete(modelId)) {
+        viewer.start(modelId);
+    }
+    if (ids === null) {
+        handle.isolatedProducts = undefined;
+    } else {
+        viewer.isolate(ids, modelId);
+    }
+}
+
+// Show the products of the given categories. Removed products are shown from the base version,
+// all other categories from the new version.
+function applyComparisonFilter(viewer: XbimViewer, state: ModelComparisonState, categories: number[]): void {
+    const shown = new Set(categories);
+    const newCategories = [ComparisonCategory.UNCHANGED, ComparisonCategory.ADDED, ComparisonCategory.MODIFIED];
+
+    isolateComparedModel(viewer, state, state.baseModelId,
+        shown.has(ComparisonCategory.REMOVED) ? state.productIds.get(ComparisonCategory.REMOVED)! : []);
+    isolateComparedModel(viewer, state, state.modelId, newCategories.every(c => shown.has(c))
+        ? null
+        : newCategories.filter(c => shown.has(c)).reduce((all: number[], c) => all.concat(state.productIds.get(c)!), []));
+    viewer.draw();
+}
+
+// Compare two loaded versions of a model. Products are matched by GUID; a matched product is modified when
+// its bounding box moved by more than the tolerance or its property hash changed. Products are coloured by
+// category and the base version only shows the removed products.
+export function compareModels(
+    viewerId: string,
+    baseModelId: number,
+    baseProducts: ProductVersion[],
+    modelId: number,
+    products: ProductVersion[],
+    options?: ModelComparisonOptions | null
+): ModelComparisonResult | null {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return null;
+        }
+
+        const handle = findModelHandle(viewer, modelId);
+        if (!findModelHandle(viewer, baseModelId) || !handle || baseModelId === modelId) {
+            console.error(`Models ${baseModelId} and ${modelId} can't be compared`);
+            return null;
+        }
+
+        const tolerance = (options?.tolerance ?? 0.001) * (handle.meter ?? 1);
+        const compareGeometry = options?.compareGeometry ?? true;
+        const compareProperties = options?.compareProperties ?? true;
+        const colors = {
+            added: options?.colors?.added ?? DEFAULT_COMPARISON_COLORS.added,
+            removed: options?.colors?.removed ?? DEFAULT_COMPARISON_COLORS.removed,
+            modified: options?.colors?.modified ?? DEFAULT_COMPARISON_COLORS.modified,
+            unchanged: options?.colors?.unchanged ?? DEFAULT_COMPARISON_COLORS.unchanged
+        };
+
+        const baseByGuid = new Map(baseProducts.map(p => [p.guid, p]));
+        const guids = new Set<string>();
+        const changes: ModelComparisonChange[] = [];
+        const productIds = new Map<number, number[]>(Object.values(ComparisonCategory).map(c => [c, []]));
+
+        for (const product of products) {
+            guids.add(product.guid);
+            const base = baseByGuid.get(product.guid);
+            if (!base) {
+                productIds.get(ComparisonCategory.ADDED)!.push(product.id);
+                changes.push({ guid: product.guid, category: ComparisonCategory.ADDED, baseProductId: null, productId: product.id, geometryChanged: false, propertiesChanged: false });
+                continue;
+            }
+
+            const geometryChanged = compareGeometry && !isSameBoundingBox(
+                viewer.getProductBoundingBox(base.id, baseModelId), viewer.getProductBoundingBox(product.id, modelId), tolerance);
+            const propertiesChanged = compareProperties && base.hash != null && product.hash != null && base.hash !== product.hash;
+            if (geometryChanged || propertiesChanged) {
+                productIds.get(ComparisonCategory.MODIFIED)!.push(product.id);
+                changes.push({ guid: product.guid, category: ComparisonCategory.MODIFIED, baseProductId: base.id, productId: product.id, geometryChanged, propertiesChanged });
+            } else {
+                productIds.get(ComparisonCategory.UNCHANGED)!.push(product.id);
+            }
+        }
+
+        for (const base of baseProducts) {
+            if (!guids.has(base.guid)) {
+                productIds.get(ComparisonCategory.REMOVED)!.push(base.id);
+                changes.push({ guid: base.guid, category: ComparisonCategory.REMOVED, baseProductId: base.id, productId: null, geometryChanged: false, propertiesChanged: false });
+            }
+        }
+
+        const styles: Array<[number, number[], number]> = [
+            [ComparisonCategory.UNCHANGED, colors.unchanged, modelId],
+            [ComparisonCategory.ADDED, colors.added, modelId],
+            [ComparisonCategory.REMOVED, colors.removed, baseModelId],
+            [ComparisonCategory.MODIFIED, colors.modified, modelId]
+        ];
+        styles.forEach(([category, color]) => viewer.defineStyle(COMPARISON_STYLE_OFFSET + category, color));
+
+        const state: ModelComparisonState = { baseModelId, modelId, productIds, stoppedModels: new Set<number>() };
+        viewer.resetStyles(baseModelId);
+        viewer.resetStyles(modelId);
+        for (const [category, , styledModelId] of styles) {
+            const ids = productIds.get(category)!;
+            if (ids.length > 0) {
+                viewer.setStyle(COMPARISON_STYLE_OFFSET + category, ids, styledModelId);
+            }
+        }
+        applyComparisonFilter(viewer, state, Object.values(ComparisonCategory));
+        modelComparisons.set(viewerId, state);
+        // Undo can't restore the comparison colours and state, so undo doesn't reach across a comparison
+        getViewerSession(viewerId).clear();
+        syncLinkedViewers(viewerId, viewer);
+
+        return {
+            baseModelId,
+            modelId,
+            addedCount: productIds.get(ComparisonCategory.ADDED)!.length,
+            removedCount: productIds.get(ComparisonCategory.REMOVED)!.length,
+            modifiedCount: productIds.get(ComparisonCategory.MODIFIED)!.length,
+            unchangedCount: productIds.get(ComparisonCategory.UNCHANGED)!.length,
+            changes
+        };
+    } catch (error) {
+        console.error('Error comparing models:', error);
+        return null;
+    }
+}
+
+// Show only the products of the given comparison categories
+export function setComparisonFilter(viewerId: string, categories: number[]): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        const state = modelComparisons.get(viewerId);
+        if (!state) {
+            console.error('No comparison is active');
+            return false;
+        }
+
+        // Not recorded, undo would get the comparison out of step with the shown products
+        applyComparisonFilter(viewer, state, categories);
+        syncLinkedViewers(viewerId, viewer);
+        return true;
+    } catch (error) {
+        console.error('Error filtering comparison:', error);
+        return false;
+    }
+}
+
+// Remove the comparison colours and show both versions completely again
+export function endComparison(viewerId: string): boolean {
+    try {
+        const viewer = viewerInstances.get(viewerId);
+        if (!viewer) {
+            console.error(`Viewer with id ${viewerId} not found`);
+            return false;
+        }
+
+        const state = modelComparisons.get(viewerId);
+        if (!state) {
+            return true;
+        }
+
+        for (const modelId of [state.baseModelId, state.modelId]) {
+            const handle = findModelHandle(viewer, modelId);
+            if (handle) {
+                viewer.resetStyles(modelId);
+                handle.isolatedProducts = undefined;
+                if (state.stoppedModels.has(modelId)) {
+                    viewer.start(modelId);
+                }
+            }
+        }
+        viewer.draw();
+        modelComparisons.delete(viewerId);
+        getViewerSession(viewerId).clear();
+        syncLinkedViewers(viewerId, viewer);
+        return true;
+    } catch (error) {
+        console.error('Error ending comparison:', error);
+        return false;
+    }
 }
\ No newline at end of file
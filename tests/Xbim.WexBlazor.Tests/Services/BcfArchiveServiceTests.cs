@@ -0,0 +1,229 @@
+using System.IO.Compression;
+using System.Text;
+using Xbim.WexBlazor.Models;
+using Xbim.WexBlazor.Services;
+
+namespace Xbim.WexBlazor.Tests.Services;
+
+/// <summary>
+/// Tests for <see cref="BcfArchiveService"/> reading and writing of BCF 2.1 and 3.0 archives.
+/// </summary>
+public class BcfArchiveServiceTests
+{
+    private readonly BcfArchiveService _service = new();
+
+    #region Round-trip Tests
+
+    [Theory]
+    [InlineData(BcfVersion.V21)]
+    [InlineData(BcfVersion.V30)]
+    public async Task WriteThenRead_ShouldPreserveTopic(BcfVersion version)
+    {
+        // Arrange
+        var archive = CreateArchive(version);
+
+        // Act
+        var data = _service.Write(archive);
+        var result = await _service.ReadAsync(new MemoryStream(data));
+
+        // Assert
+        Assert.Equal(version, result.Version);
+        Assert.Equal("project-1", result.ProjectId);
+        Assert.Equal("Sample Project", result.ProjectName);
+
+        var topic = Assert.Single(result.Topics);
+        var expected = archive.Topics[0];
+        Assert.Equal(expected.Guid, topic.Guid);
+        Assert.Equal("Clash between wall and duct", topic.Title);
+        Assert.Equal("Clash", topic.TopicType);
+        Assert.Equal("Open", topic.TopicStatus);
+        Assert.Equal("Coordination meeting notes", topic.Description);
+        Assert.Equal(new[] { "MEP", "Structure" }, topic.Labels);
+        Assert.Equal(expected.CreationDate, topic.CreationDate);
+
+        var comment = Assert.Single(topic.Comments);
+        Assert.Equal("Please move the duct", comment.Comment);
+        Assert.Equal(expected.Viewpoints[0].Guid, comment.ViewpointGuid);
+    }
+
+    [Theory]
+    [InlineData(BcfVersion.V21)]
+    [InlineData(BcfVersion.V30)]
+    public async Task WriteThenRead_ShouldPreserveViewpoint(BcfVersion version)
+    {
+        // Arrange
+        var archive = CreateArchive(version);
+        var expected = archive.Topics[0].Viewpoints[0];
+
+        // Act
+        var result = await _service.ReadAsync(new MemoryStream(_service.Write(archive)));
+
+        // Assert
+        var viewpoint = Assert.Single(result.Topics[0].Viewpoints);
+        Assert.Equal(expected.Guid, viewpoint.Guid);
+
+        Assert.NotNull(viewpoint.PerspectiveCamera);
+        Assert.Equal(new[] { 1.5, 2.5, 3.5 }, viewpoint.PerspectiveCamera!.CameraViewPoint);
+        Assert.Equal(new[] { 0.0, 1.0, 0.0 }, viewpoint.PerspectiveCamera.CameraDirection);
+        Assert.Equal(45, viewpoint.PerspectiveCamera.FieldOfView);
+        Assert.Equal(2, viewpoint.PerspectiveCamera.Width!.Value / viewpoint.PerspectiveCamera.Height!.Value, 6);
+
+        var plane = Assert.Single(viewpoint.ClippingPlanes!);
+        Assert.Equal(new[] { 0.0, 0.0, 2.0 }, plane.Location);
+        Assert.Equal(new[] { 0.0, 0.0, -1.0 }, plane.Direction);
+
+        Assert.Equal("2O2Fr$t4X7Zf8NOew3FLOH", Assert.Single(viewpoint.Components!.Selection!).IfcGuid);
+        Assert.False(viewpoint.Components.Visibility!.DefaultVisibility);
+        Assert.Equal("3cUkl32yn9qRSPvBJVyWYp", Assert.Single(viewpoint.Components.Visibility.Exceptions!).IfcGuid);
+        Assert.True(viewpoint.Components.Visibility.ViewSetupHints!.OpeningsVisible);
+
+        var coloring = Assert.Single(viewpoint.Components.Coloring!);
+        Assert.Equal("FFFF0000", coloring.Color);
+        Assert.Single(coloring.Components);
+
+        Assert.NotNull(viewpoint.Snapshot);
+        Assert.Equal(expected.Snapshot!.SnapshotData, viewpoint.Snapshot!.SnapshotData);
+    }
+
+    [Fact]
+    public void Write_V21_ShouldUseDefaultViewpointFileNames()
+    {
+        // Arrange
+        var archive = CreateArchive(BcfVersion.V21);
+        var topicGuid = archive.Topics[0].Guid;
+
+        // Act
+        using var zip = new ZipArchive(new MemoryStream(_service.Write(archive)));
+
+        // Assert
+        Assert.NotNull(zip.GetEntry("bcf.version"));
+        Assert.NotNull(zip.GetEntry($"{topicGuid}/markup.bcf"));
+        Assert.NotNull(zip.GetEntry($"{topicGuid}/viewpoint.bcfv"));
+        Assert.NotNull(zip.GetEntry($"{topicGuid}/snapshot.png"));
+    }
+
+    #endregion
+
+    #region Reading Tests
+
+    [Fact]
+    public async Task ReadAsync_Bcf20TopicWithoutViewpointReferences_ShouldUseDefaultFiles()
+    {
+        // Arrange
+        var data = CreateZip(new Dictionary<string, string>
+        {
+            ["bcf.version"] = "<Version VersionId=\"2.0\"><DetailedVersion>2.0</DetailedVersion></Version>",
+            ["topic-1/markup.bcf"] = "<Markup><Topic Guid=\"topic-1\"><Title>Legacy</Title></Topic></Markup>",
+            ["topic-1/viewpoint.bcfv"] =
+                "<VisualizationInfo Guid=\"vp-1\"><OrthogonalCamera>" +
+                "<CameraViewPoint><X>1</X><Y>2</Y><Z>3</Z></CameraViewPoint>" +
+                "<CameraDirection><X>0</X><Y>0</Y><Z>-1</Z></CameraDirection>" +
+                "<CameraUpVector><X>0</X><Y>1</Y><Z>0</Z></CameraUpVector>" +
+                "<ViewToWorldScale>12.5</ViewToWorldScale></OrthogonalCamera></VisualizationInfo>"
+        });
+
+        // Act
+        var result = await _service.ReadAsync(new MemoryStream(data));
+
+        // Assert
+        Assert.Equal(BcfVersion.V21, result.Version);
+        var topic = Assert.Single(result.Topics);
+        Assert.Equal("Legacy", topic.Title);
+        var viewpoint = Assert.Single(topic.Viewpoints);
+        Assert.Equal("vp-1", viewpoint.Guid);
+        Assert.Equal(12.5, viewpoint.OrthogonalCamera!.ViewToWorldScale);
+        Assert.Null(viewpoint.PerspectiveCamera);
+    }
+
+    [Fact]
+    public async Task ReadAsync_NotABcfArchive_ShouldThrow()
+    {
+        // Arrange
+        var data = CreateZip(new Dictionary<string, string> { ["readme.txt"] = "hello" });
+
+        // Act & Assert
+        await Assert.ThrowsAsync<InvalidDataException>(() => _service.ReadAsync(new MemoryStream(data)));
+    }
+
+    #endregion
+
+    #region Helpers
+
+    private static BcfArchive CreateArchive(BcfVersion version)
+    {
+        var viewpoint = new BcfViewpoint
+        {
+            PerspectiveCamera = new BcfPerspectiveCamera
+            {
+                CameraViewPoint = new[] { 1.5, 2.5, 3.5 },
+                CameraDirection = new[] { 0.0, 1.0, 0.0 },
+                CameraUpVector = new[] { 0.0, 0.0, 1.0 },
+                FieldOfView = 45,
+                Width = 20,
+                Height = 10
+            },
+            ClippingPlanes = new List<BcfClippingPlane>
+            {
+                new() { Location = new[] { 0.0, 0.0, 2.0 }, Direction = new[] { 0.0, 0.0, -1.0 } }
+            },
+            Components = new BcfComponents
+            {
+                Selection = new List<BcfComponent> { new() { IfcGuid = "2O2Fr$t4X7Zf8NOew3FLOH" } },
+                Visibility = new BcfVisibility
+                {
+                    DefaultVisibility = false,
+                    Exceptions = new List<BcfComponent> { new() { IfcGuid = "3cUkl32yn9qRSPvBJVyWYp" } },
+                    ViewSetupHints = new BcfViewSetupHints { OpeningsVisible = true }
+                },
+                Coloring = new List<BcfColoring>
+                {
+                    new() { Color = "FFFF0000", Components = new List<BcfComponent> { new() { IfcGuid = "2O2Fr$t4X7Zf8NOew3FLOH" } } }
+                }
+            },
+            Snapshot = new BcfSnapshot { SnapshotData = Convert.ToBase64String(new byte[] { 0x89, 0x50, 0x4E, 0x47 }) }
+        };
+
+        var topic = new BcfTopic
+        {
+            Title = "Clash between wall and duct",
+            TopicType = "Clash",
+            TopicStatus = "Open",
+            Description = "Coordination meeting notes",
+            Labels = new List<string> { "MEP", "Structure" },
+            CreationDate = new DateTime(2024, 5, 1, 10, 30, 0, DateTimeKind.Utc),
+            CreationAuthor = "jane@example.com",
+            Viewpoints = new List<BcfViewpoint> { viewpoint }
+        };
+        topic.Comments.Add(new BcfComment
+        {
+            Author = "john@example.com",
+            Comment = "Please move the duct",
+            ViewpointGuid = viewpoint.Guid
+        });
+
+        return new BcfArchive
+        {
+            Version = version,
+            ProjectId = "project-1",
+            ProjectName = "Sample Project",
+            Topics = new List<BcfTopic> { topic }
+        };
+    }
+
+    private static byte[] CreateZip(Dictionary<string, string> entries)
+    {
+        using var buffer = new MemoryStream();
+        using (var zip = new ZipArchive(buffer, ZipArchiveMode.Create, leaveOpen: true))
+        {
+            foreach (var (path, content) in entries)
+            {
+                using var stream = zip.CreateEntry(path).Open();
+                var bytes = Encoding.UTF8.GetBytes(content);
+                stream.Write(bytes, 0, bytes.Length);
+            }
+        }
+        return buffer.ToArray();
+    }
+
+    #endregion
+}
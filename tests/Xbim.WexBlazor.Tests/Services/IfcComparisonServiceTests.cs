@@ -0,0 +1,173 @@
+using Xbim.Ifc4;
+using Xbim.Ifc4.Kernel;
+using Xbim.Ifc4.MeasureResource;
+using Xbim.Ifc4.PropertyResource;
+using Xbim.Ifc4.SharedBldgElements;
+using Xbim.IO.Memory;
+using Xbim.WexBlazor.Services;
+
+namespace Xbim.WexBlazor.Tests.Services;
+
+/// <summary>
+/// Tests for <see cref="IfcComparisonService"/> product versions and property hashes used to compare two model versions.
+/// </summary>
+public class IfcComparisonServiceTests
+{
+    private const string WallA = "0K7w7JN7X4fOA3a7s8JQ1A";
+    private const string WallB = "0K7w7JN7X4fOA3a7s8JQ1B";
+    private const string WallC = "0K7w7JN7X4fOA3a7s8JQ1C";
+
+    private readonly IfcComparisonService _service = new();
+
+    private record PropertyValue(string PropertySet, string Name, string Value);
+
+    private static readonly PropertyValue FireRating = new("Pset_WallCommon", "FireRating", "60");
+    private static readonly PropertyValue IsExternal = new("Pset_WallCommon", "IsExternal", "true");
+    private static readonly PropertyValue Finish = new("Custom", "Finish", "Plaster");
+
+    private static MemoryModel CreateModel(params (string Guid, PropertyValue[] Properties)[] walls)
+    {
+        var model = new MemoryModel(new EntityFactoryIfc4());
+        using var txn = model.BeginTransaction("Create walls");
+        foreach (var (guid, properties) in walls)
+        {
+            var wall = model.Instances.New<IfcWall>(w =>
+            {
+                w.GlobalId = guid;
+                w.Name = "Wall";
+            });
+
+            // One property set per name, in the order the properties are given
+            foreach (var group in properties.GroupBy(p => p.PropertySet))
+            {
+                var pset = model.Instances.New<IfcPropertySet>(ps => ps.Name = group.Key);
+                foreach (var property in group)
+                {
+                    pset.HasProperties.Add(model.Instances.New<IfcPropertySingleValue>(p =>
+                    {
+                        p.Name = property.Name;
+                        p.NominalValue = new IfcLabel(property.Value);
+                    }));
+                }
+                model.Instances.New<IfcRelDefinesByProperties>(rel =>
+                {
+                    rel.RelatedObjects.Add(wall);
+                    rel.RelatingPropertyDefinition = pset;
+                });
+            }
+        }
+        txn.Commit();
+        return model;
+    }
+
+    #region Product Version Tests
+
+    [Fact]
+    public void GetProductVersions_ShouldIdentifyProductsByGlobalId()
+    {
+        // Arrange
+        using var model = CreateModel((WallA, Array.Empty<PropertyValue>()), (WallB, Array.Empty<PropertyValue>()));
+
+        // Act
+        var versions = _service.GetProductVersions(model);
+
+        // Assert
+        Assert.Equal(new[] { WallA, WallB }, versions.Select(v => v.Guid).OrderBy(g => g));
+        Assert.All(versions, v => Assert.True(v.Id > 0));
+        Assert.All(versions, v => Assert.NotNull(v.Hash));
+    }
+
+    [Fact]
+    public void GetProductVersions_WithoutPropertyHash_ShouldLeaveHashEmpty()
+    {
+        // Arrange
+        using var model = CreateModel((WallA, new[] { FireRating }));
+
+        // Act
+        var version = Assert.Single(_service.GetProductVersions(model, includePropertyHash: false));
+
+        // Assert
+        Assert.Null(version.Hash);
+    }
+
+    [Fact]
+    public void GetProductVersions_NullModel_ShouldReturnEmpty()
+    {
+        // Act & Assert
+        Assert.Empty(_service.GetProductVersions(null!));
+    }
+
+    #endregion
+
+    #region Property Hash Tests
+
+    [Fact]
+    public void PropertyHash_ShouldBeStableAcrossModels()
+    {
+        // Arrange
+        using var first = CreateModel((WallA, new[] { FireRating, Finish }));
+        using var second = CreateModel((WallA, new[] { FireRating, Finish }));
+
+        // Act & Assert
+        Assert.Equal(
+            Assert.Single(_service.GetProductVersions(first)).Hash,
+            Assert.Single(_service.GetProductVersions(second)).Hash);
+    }
+
+    [Fact]
+    public void PropertyHash_ShouldNotDependOnPropertyOrder()
+    {
+        // Arrange
+        using var first = CreateModel((WallA, new[] { FireRating, IsExternal, Finish }));
+        using var second = CreateModel((WallA, new[] { Finish, IsExternal, FireRating }));
+
+        // Act & Assert
+        Assert.Equal(
+            Assert.Single(_service.GetProductVersions(first)).Hash,
+            Assert.Single(_service.GetProductVersions(second)).Hash);
+    }
+
+    [Fact]
+    public void PropertyHash_ShouldChangeWithPropertyValue()
+    {
+        // Arrange
+        using var first = CreateModel((WallA, new[] { FireRating }));
+        using var second = CreateModel((WallA, new[] { FireRating with { Value = "90" } }));
+
+        // Act & Assert
+        Assert.NotEqual(
+            Assert.Single(_service.GetProductVersions(first)).Hash,
+            Assert.Single(_service.GetProductVersions(second)).Hash);
+    }
+
+    #endregion
+
+    #region Classification Tests
+
+    [Fact]
+    public void ProductVersions_ShouldClassifyAddedRemovedModifiedAndUnchanged()
+    {
+        // Arrange: A is removed, B is modified, C is added and the remaining wall is unchanged
+        const string unchanged = "0K7w7JN7X4fOA3a7s8JQ1D";
+        using var baseModel = CreateModel(
+            (WallA, new[] { FireRating }),
+            (WallB, new[] { FireRating }),
+            (unchanged, new[] { FireRating, Finish }));
+        using var newModel = CreateModel(
+            (WallB, new[] { FireRating with { Value = "120" } }),
+            (WallC, new[] { FireRating }),
+            (unchanged, new[] { Finish, FireRating }));
+
+        // Act
+        var before = _service.GetProductVersions(baseModel).ToDictionary(v => v.Guid);
+        var after = _service.GetProductVersions(newModel).ToDictionary(v => v.Guid);
+
+        // Assert - products are matched by GlobalId and compared by hash, as in the viewer
+        Assert.Equal(new[] { WallA }, before.Keys.Except(after.Keys));
+        Assert.Equal(new[] { WallC }, after.Keys.Except(before.Keys));
+        var modified = before.Keys.Intersect(after.Keys).Where(guid => before[guid].Hash != after[guid].Hash);
+        Assert.Equal(new[] { WallB }, modified);
+    }
+
+    #endregion
+}
@@ -0,0 +1,229 @@
+using Xbim.WexBlazor.Models;
+using Xbim.WexBlazor.Services;
+
+namespace Xbim.WexBlazor.Tests.Services;
+
+/// <summary>
+/// Tests for <see cref="SavedViewService"/> storage, ordering and JSON exchange of saved views.
+/// </summary>
+public class SavedViewServiceTests
+{
+    private const string ModelKey = "building.wexbim";
+    private readonly SavedViewService _service = new();
+
+    #region Storage Tests
+
+    [Fact]
+    public void Add_ShouldStoreViewsPerModel()
+    {
+        // Arrange
+        var view = new SavedView { Name = "Entrance" };
+
+        // Act
+        _service.Add(ModelKey, view);
+
+        // Assert
+        Assert.Same(view, Assert.Single(_service.GetViews(ModelKey)));
+        Assert.Empty(_service.GetViews("other.wexbim"));
+    }
+
+    [Fact]
+    public void GetViews_ShouldIgnoreModelKeyCase()
+    {
+        // Arrange
+        _service.Add(ModelKey, new SavedView { Name = "Entrance" });
+
+        // Act
+        var views = _service.GetViews(ModelKey.ToUpperInvariant());
+
+        // Assert
+        Assert.Single(views);
+    }
+
+    [Fact]
+    public void Rename_ShouldChangeName()
+    {
+        // Arrange
+        var view = new SavedView { Name = "Entrance" };
+        _service.Add(ModelKey, view);
+
+        // Act
+        var result = _service.Rename(ModelKey, view.Id, "Main entrance");
+
+        // Assert
+        Assert.True(result);
+        Assert.Equal("Main entrance", _service.GetViews(ModelKey)[0].Name);
+    }
+
+    [Fact]
+    public void Remove_ShouldDeleteView()
+    {
+        // Arrange
+        var view = new SavedView { Name = "Entrance" };
+        _service.Add(ModelKey, view);
+
+        // Act
+        var removed = _service.Remove(ModelKey, view.Id);
+        var removedAgain = _service.Remove(ModelKey, view.Id);
+
+        // Assert
+        Assert.True(removed);
+        Assert.False(removedAgain);
+        Assert.Empty(_service.GetViews(ModelKey));
+    }
+
+    [Theory]
+    [InlineData(0, new[] { "C", "A", "B" })]
+    [InlineData(1, new[] { "A", "C", "B" })]
+    [InlineData(-5, new[] { "C", "A", "B" })]
+    [InlineData(10, new[] { "A", "B", "C" })]
+    public void Move_ShouldReorderViews(int newIndex, string[] expected)
+    {
+        // Arrange
+        _service.Add(ModelKey, new SavedView { Name = "A" });
+        _service.Add(ModelKey, new SavedView { Name = "B" });
+        var view = new SavedView { Name = "C" };
+        _service.Add(ModelKey, view);
+
+        // Act
+        var result = _service.Move(ModelKey, view.Id, newIndex);
+
+        // Assert
+        Assert.True(result);
+        Assert.Equal(expected, _service.GetViews(ModelKey).Select(v => v.Name));
+    }
+
+    [Fact]
+    public void ViewsChanged_ShouldBeRaisedWithModelKey()
+    {
+        // Arrange
+        var keys = new List<string>();
+        _service.ViewsChanged += keys.Add;
+
+        // Act
+        _service.Add(ModelKey, new SavedView());
+        _service.Clear(ModelKey);
+
+        // Assert
+        Assert.Equal(new[] { ModelKey, ModelKey }, keys);
+    }
+
+    #endregion
+
+    #region Import/Export Tests
+
+    [Fact]
+    public void ExportThenImport_ShouldPreserveViews()
+    {
+        // Arrange
+        var view = CreateView();
+        _service.Add(ModelKey, view);
+
+        // Act
+        var json = _service.Export(ModelKey);
+        var target = new SavedViewService();
+        var count = target.Import(ModelKey, json);
+
+        // Assert
+        Assert.Equal(1, count);
+        var result = Assert.Single(target.GetViews(ModelKey));
+        Assert.Equal(view.Id, result.Id);
+        Assert.Equal("Level 2 review", result.Name);
+        Assert.Equal(view.Thumbnail, result.Thumbnail);
+        Assert.Equal(view.Camera!.Position, result.Camera!.Position);
+        Assert.Equal(ViewerConstants.CameraType.Orthogonal, result.Camera.Type);
+        Assert.Equal(25, result.Camera.Height);
+        Assert.Equal(12.5, result.SectionBox!.LengthZ);
+
+        var model = Assert.Single(result.Models);
+        Assert.Equal(ModelKey, model.ModelKey);
+        Assert.Equal(new[] { 10, 11 }, model.Hidden);
+        Assert.Equal(new[] { 42 }, model.Highlighted);
+        Assert.Equal(new[] { 42, 56545 }, model.Styles[0]);
+        Assert.Null(model.Isolated);
+        Assert.Equal(new[] { 0.0, 0.0, -1.0, 3.0 }, model.ClippingPlaneA);
+    }
+
+    [Fact]
+    public void Import_ShouldAppendByDefault()
+    {
+        // Arrange
+        _service.Add(ModelKey, new SavedView { Name = "Existing" });
+        var json = _service.Export(ModelKey);
+
+        // Act
+        _service.Import(ModelKey, json);
+
+        // Assert
+        var views = _service.GetViews(ModelKey);
+        Assert.Equal(2, views.Count);
+        Assert.NotEqual(views[0].Id, views[1].Id);
+    }
+
+    [Fact]
+    public void Import_WithReplace_ShouldReplaceExistingViews()
+    {
+        // Arrange
+        var source = new SavedViewService();
+        source.Add(ModelKey, new SavedView { Name = "Imported" });
+        _service.Add(ModelKey, new SavedView { Name = "Existing" });
+
+        // Act
+        _service.Import(ModelKey, source.Export(ModelKey), replace: true);
+
+        // Assert
+        Assert.Equal("Imported", Assert.Single(_service.GetViews(ModelKey)).Name);
+    }
+
+    [Theory]
+    [InlineData("not json")]
+    [InlineData("null")]
+    [InlineData("{\"views\": null}")]
+    public void Import_InvalidJson_ShouldThrow(string json)
+    {
+        // Act & Assert
+        Assert.Throws<InvalidDataException>(() => _service.Import(ModelKey, json));
+    }
+
+    #endregion
+
+    #region Helpers
+
+    private static SavedView CreateView()
+    {
+        return new SavedView
+        {
+            Name = "Level 2 review",
+            Thumbnail = "data:image/jpeg;base64,AAAA",
+            Camera = new ViewerCamera
+            {
+                Position = new[] { 1000.0, 2000.0, 3000.0 },
+                Direction = new[] { 0.0, 0.0, -1.0 },
+                Up = new[] { 0.0, 1.0, 0.0 },
+                Type = ViewerConstants.CameraType.Orthogonal,
+                Height = 25
+            },
+            Models =
+            {
+                new SavedViewModelState
+                {
+                    ModelKey = ModelKey,
+                    ModelId = 1,
+                    Styles = { new[] { 42, 56545 } },
+                    Hidden = { 10, 11 },
+                    Highlighted = { 42 },
+                    ClippingPlaneA = new[] { 0.0, 0.0, -1.0, 3.0 }
+                }
+            },
+            SectionBox = new SavedViewSectionBox
+            {
+                Location = new[] { 5.0, 5.0, 5.0 },
+                LengthX = 10,
+                LengthY = 10,
+                LengthZ = 12.5
+            }
+        };
+    }
+
+    #endregion
+}
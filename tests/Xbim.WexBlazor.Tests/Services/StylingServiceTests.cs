@@ -0,0 +1,171 @@
+using Xbim.WexBlazor.Models;
+using Xbim.WexBlazor.Services;
+
+namespace Xbim.WexBlazor.Tests.Services;
+
+/// <summary>
+/// Tests for <see cref="StylingService"/> resolution of style rules to style layers.
+/// </summary>
+public class StylingServiceTests
+{
+    private const int ModelId = 1;
+
+    private static readonly (int ElementId, int ModelId)[] Products =
+    {
+        (10, ModelId), (11, ModelId), (12, ModelId), (20, ModelId), (21, ModelId), (22, ModelId)
+    };
+
+    private readonly PropertyService _propertyService = new();
+    private readonly DictionaryPropertySource _source = new();
+    private readonly StylingService _service;
+
+    public StylingServiceTests()
+    {
+        _propertyService.RegisterSource(_source);
+        _service = new StylingService(_propertyService);
+
+        _source.AddProperty(10, ModelId, "Pset_WallCommon", "FireRating", "60");
+        _source.AddProperty(11, ModelId, "Pset_WallCommon", "FireRating", "90");
+        _source.AddProperty(12, ModelId, "Pset_DoorCommon", "FireRating", "60.0");
+        _source.AddProperty(20, ModelId, "Dimensions", "Area", "5");
+        _source.AddProperty(21, ModelId, "Dimensions", "Area", "15");
+        _source.AddProperty(22, ModelId, "Dimensions", "Area", "25");
+    }
+
+    #region Rule Tests
+
+    [Fact]
+    public async Task ResolveAsync_ProductTypeRule_ShouldBeResolvedByViewer()
+    {
+        // Act
+        var layers = await _service.ResolveAsync(new[] { StyleRule.ForType("IfcWall", "#808080") }, Products);
+
+        // Assert
+        var layer = Assert.Single(layers);
+        Assert.Equal("IfcWall", layer.Label);
+        Assert.Equal(new[] { "IfcWall" }, layer.ProductTypes);
+        Assert.Null(layer.Products);
+        Assert.Equal(new[] { 128, 128, 128, 255 }, layer.Color);
+    }
+
+    [Fact]
+    public async Task ResolveAsync_PropertyValueRule_ShouldCompareNumbersNumerically()
+    {
+        // Act
+        var layers = await _service.ResolveAsync(new[] { StyleRule.ForValue("FireRating", "60", "#FFA500") }, Products);
+
+        // Assert
+        var layer = Assert.Single(layers);
+        Assert.Equal("FireRating = 60", layer.Label);
+        Assert.Equal(new[] { 10, 12 }, layer.Products!.Select(p => p.Id));
+    }
+
+    [Fact]
+    public async Task ResolveAsync_PropertyValueRule_ShouldFilterByPropertySet()
+    {
+        // Act
+        var layers = await _service.ResolveAsync(
+            new[] { StyleRule.ForValue("FireRating", null, "#FFA500", propertySet: "Pset_DoorCommon") },
+            Products);
+
+        // Assert
+        Assert.Equal(new[] { 12 }, Assert.Single(layers).Products!.Select(p => p.Id));
+    }
+
+    [Fact]
+    public async Task ResolveAsync_PropertyRangeWithGradient_ShouldSplitIntoBands()
+    {
+        // Act
+        var layers = await _service.ResolveAsync(
+            new[] { StyleRule.ForRange("Area", 0, 30, "#000000", "#FF0000", steps: 3) },
+            Products);
+
+        // Assert
+        Assert.Equal(3, layers.Count);
+        Assert.Equal(new[] { "Area 0 – 10", "Area 10 – 20", "Area 20 – 30" }, layers.Select(l => l.Label));
+        Assert.Equal(new[] { 0, 0, 0, 255 }, layers[0].Color);
+        Assert.Equal(new[] { 128, 0, 0, 255 }, layers[1].Color);
+        Assert.Equal(new[] { 255, 0, 0, 255 }, layers[2].Color);
+        Assert.Equal(new[] { 20 }, layers[0].Products!.Select(p => p.Id));
+        Assert.Equal(new[] { 21 }, layers[1].Products!.Select(p => p.Id));
+        Assert.Equal(new[] { 22 }, layers[2].Products!.Select(p => p.Id));
+    }
+
+    [Fact]
+    public async Task ResolveAsync_PropertyRangeWithoutBounds_ShouldUseValueRange()
+    {
+        // Act
+        var layers = await _service.ResolveAsync(
+            new[] { new StyleRule { Type = StyleRuleType.PropertyRange, PropertyName = "Area", Color = "#00FF00" } },
+            Products);
+
+        // Assert
+        var layer = Assert.Single(layers);
+        Assert.Equal("Area 5 – 25", layer.Label);
+        Assert.Equal(new[] { 20, 21, 22 }, layer.Products!.Select(p => p.Id));
+    }
+
+    [Fact]
+    public async Task ResolveAsync_ShouldKeepRuleOrder()
+    {
+        // Arrange
+        var rules = new[]
+        {
+            StyleRule.ForValue("FireRating", "90", "#FF0000"),
+            StyleRule.ForType("IfcWall", "#808080")
+        };
+
+        // Act
+        var layers = await _service.ResolveAsync(rules, Products);
+
+        // Assert
+        Assert.Equal(new[] { 0, 1 }, layers.Select(l => l.RuleIndex));
+        Assert.Equal("FireRating = 90", layers[0].Label);
+    }
+
+    #endregion
+
+    #region Validation Tests
+
+    [Fact]
+    public async Task ResolveAsync_RuleWithoutPropertyName_ShouldThrow()
+    {
+        // Arrange
+        var rules = new[] { new StyleRule { Type = StyleRuleType.PropertyValue, Value = "60" } };
+
+        // Act & Assert
+        await Assert.ThrowsAsync<ArgumentException>(() => _service.ResolveAsync(rules, Products));
+    }
+
+    [Fact]
+    public async Task ResolveAsync_TooManyColours_ShouldThrow()
+    {
+        // Arrange
+        var rules = Enumerable.Range(0, StylingService.MaxStyles + 1)
+            .Select(i => StyleRule.ForType($"IfcType{i}", "#808080"))
+            .ToList();
+
+        // Act & Assert
+        await Assert.ThrowsAsync<InvalidOperationException>(() => _service.ResolveAsync(rules, Products));
+    }
+
+    [Fact]
+    public async Task ResolveAsync_AllColours_ShouldFitBetweenHeatmapAndComparisonStyles()
+    {
+        // Arrange
+        var rules = Enumerable.Range(0, StylingService.MaxStyles)
+            .Select(i => StyleRule.ForType($"IfcType{i}", "#808080"))
+            .ToList();
+
+        // Act
+        var layers = await _service.ResolveAsync(rules, Products);
+
+        // Assert: layers take the style indices below the comparison styles, down to the end of the heatmap range
+        Assert.Equal(StylingService.MaxStyles, layers.Count);
+        Assert.Equal(ViewerConstants.StyleRange.StyleLayersStart, ViewerConstants.StyleRange.ComparisonStart - layers.Count);
+        Assert.True(ViewerConstants.StyleRange.HeatmapStart < ViewerConstants.StyleRange.StyleLayersStart);
+        Assert.Equal(ViewerConstants.StyleRange.Count - 4, ViewerConstants.StyleRange.ComparisonStart);
+    }
+
+    #endregion
+}
@@ -27,6 +27,10 @@ public class StandaloneServiceCollectionExtensionsTests
         Assert.Contains(services, d => d.ServiceType == typeof(IPropertyService));
         Assert.Contains(services, d => d.ServiceType == typeof(PropertyService));
         Assert.Contains(services, d => d.ServiceType == typeof(IfcHierarchyService));
+        Assert.Contains(services, d => d.ServiceType == typeof(BcfArchiveService));
+        Assert.Contains(services, d => d.ServiceType == typeof(SavedViewService));
+        Assert.Contains(services, d => d.ServiceType == typeof(StylingService));
+        Assert.Contains(services, d => d.ServiceType == typeof(IfcComparisonService));
     }
 
     [Fact]
@@ -98,6 +102,10 @@ public class StandaloneServiceCollectionExtensionsTests
         Assert.NotNull(provider.GetRequiredService<IPropertyService>());
         Assert.NotNull(provider.GetRequiredService<PropertyService>());
         Assert.NotNull(provider.GetRequiredService<IfcHierarchyService>());
+        Assert.NotNull(provider.GetRequiredService<BcfArchiveService>());
+        Assert.NotNull(provider.GetRequiredService<SavedViewService>());
+        Assert.NotNull(provider.GetRequiredService<StylingService>());
+        Assert.NotNull(provider.GetRequiredService<IfcComparisonService>());
     }
 
     [Fact]